@@ -1,4 +1,21 @@
-import fs from "fs";
+import {
+  AiConfigError,
+  AiProvider,
+  AiTimeoutError,
+  AllProvidersFailedError,
+  fakeProvider,
+  openAiCompatibleProvider,
+  ProviderFailure,
+} from "./providers";
+
+export {
+  AiConfigError,
+  AiError,
+  AiTimeoutError,
+  AllProvidersFailedError,
+  EmptyResponseError,
+  HttpResponseError,
+} from "./providers";
 
 export enum AiModels {
   CLAUDE = "anthropic/claude-3.7-sonnet",
@@ -10,8 +27,11 @@ export enum AiModels {
   CHEAP = "google/gemini-2.0-flash-001",
 }
 
+/** What an LLM is asked for, each with its own models. */
+export type AiTask = "recap" | "digest" | "dig";
+
 export type AiOptions = {
-  model?: AiModels;
+  task: AiTask;
 };
 
 export type AiMessage = {
@@ -43,7 +63,10 @@ export type OpenRouterResponse = {
   };
 };
 
-/** Streaming chunk shape for OpenRouter SSE responses. */
+/**
+ * Streaming chunk shape for OpenRouter SSE responses.
+ * Every provider yields chunks of this shape.
+ */
 export type OpenRouterStreamChunk = {
   id?: string;
   object?: string;
@@ -59,105 +82,191 @@ export type OpenRouterStreamChunk = {
   error?: { code?: string | number; message: string };
 };
 
-/** Error thrown when OpenRouter returns a non-OK status before streaming starts. */
-export class HttpResponseError extends Error {
-  status: number;
-  statusText: string;
-  bodyText: string;
-  constructor(status: number, statusText: string, bodyText: string) {
-    super(`HTTP ${status} ${statusText}: ${bodyText}`);
-    this.status = status;
-    this.statusText = statusText;
-    this.bodyText = bodyText;
+/**
+ * Time a provider has to answer (or to start streaming) before the next
+ * provider of the chain is tried.
+ */
+const AI_TIMEOUT_MS = (Number(process.env.AI_TIMEOUT_SECONDS) || 120) * 1000;
+
+/**
+ * Builds each provider from its environment variables:
+ * - openrouter: OPENROUTER_API_KEY
+ * - openai: any OpenAI-compatible API at OPENAI_BASE_URL (e.g. a local
+ *   llama.cpp or Ollama server), with OPENAI_API_KEY if it needs one
+ * - fake: deterministic answers without any LLM (see providers.ts)
+ */
+const PROVIDERS: Record<string, () => AiProvider> = {
+  openrouter: () => {
+    if (!process.env.OPENROUTER_API_KEY) {
+      throw new AiConfigError("OPENROUTER_API_KEY not set");
+    }
+    return openAiCompatibleProvider(
+      "https://openrouter.ai/api/v1",
+      process.env.OPENROUTER_API_KEY,
+    );
+  },
+  openai: () => {
+    if (!process.env.OPENAI_BASE_URL) {
+      throw new AiConfigError("OPENAI_BASE_URL not set");
+    }
+    return openAiCompatibleProvider(
+      process.env.OPENAI_BASE_URL,
+      process.env.OPENAI_API_KEY,
+    );
+  },
+  fake: fakeProvider,
+};
+
+/** Models of each task when its AI_MODELS_<TASK> variable is not set. */
+const DEFAULT_MODELS: Record<AiTask, string> = {
+  recap: `openrouter:${AiModels.GPT4_1}`,
+  digest: `openrouter:${AiModels.GPT4_1}`,
+  dig: `openrouter:${AiModels.PERPLEXITY}`,
+};
+
+/** A model of a fallback chain, and the provider serving it. */
+type ModelChoice = {
+  provider: string;
+  model: string;
+};
+
+/**
+ * Parses a comma-separated list of models, each written `<provider>:<model>`.
+ * Models without a provider (e.g. "openai/gpt-4.1") are OpenRouter's.
+ *
+ * @param value - e.g. "openrouter:openai/gpt-4.1,openai:llama3.1"
+ * @returns The models, in order
+ * @throws AiConfigError if a model names an unknown provider
+ */
+function parseModelChain(value: string): ModelChoice[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = entry.match(/^([^:/]+):(.+)$/);
+      if (!match) return { provider: "openrouter", model: entry };
+      if (!PROVIDERS[match[1]]) {
+        throw new AiConfigError(
+          `Unknown AI provider "${match[1]}" in "${entry}" (expected one of ${Object.keys(PROVIDERS).join(", ")})`,
+        );
+      }
+      return { provider: match[1], model: match[2] };
+    });
+}
+
+/**
+ * Returns the models to try for a task, in order: the fallback chain of its
+ * AI_MODELS_<TASK> variable (e.g. AI_MODELS_RECAP), or its default model.
+ *
+ * @param task - The task
+ * @returns The fallback chain, never empty
+ * @throws AiConfigError if a model names an unknown provider
+ */
+export function getModelChain(task: AiTask): ModelChoice[] {
+  const chain = parseModelChain(
+    process.env[`AI_MODELS_${task.toUpperCase()}`] ?? "",
+  );
+  return chain.length > 0 ? chain : parseModelChain(DEFAULT_MODELS[task]);
+}
+
+/**
+ * Checks the models of every task, logging a warning for each that cannot
+ * be used, e.g. because of a missing API key.
+ */
+export function checkAiConfig(): void {
+  for (const task of Object.keys(DEFAULT_MODELS) as AiTask[]) {
+    try {
+      for (const { provider, model } of getModelChain(task)) {
+        try {
+          PROVIDERS[provider]();
+        } catch (error) {
+          console.warn(
+            `WARNING: ${(error as Error).message} - ${task} with ${provider}:${model} will fail`,
+          );
+        }
+      }
+    } catch (error) {
+      console.warn(`WARNING: ${(error as Error).message} - ${task} will fail`);
+    }
   }
 }
 
-export async function askAi(messages: AiMessage[], options?: AiOptions) {
-  const fetchParams = {
-    model: options?.model ?? AiModels.CHEAP,
-    messages: messages,
+/**
+ * Logs a provider's failure before the next one of the chain is tried.
+ *
+ * @returns The failure, to report if all providers fail
+ */
+function providerFailed(
+  choice: ModelChoice,
+  error: unknown,
+  signal: AbortSignal,
+): ProviderFailure {
+  const failure = {
+    ...choice,
+    error: signal.aborted ? new AiTimeoutError(AI_TIMEOUT_MS) : error,
   };
+  console.error(
+    `AI provider ${choice.provider}:${choice.model} failed:`,
+    String(failure.error),
+  );
+  return failure;
+}
 
-  const res = (await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: "Bearer " + process.env.OPENROUTER_API_KEY,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(fetchParams),
-  }).then((res) => res.json())) as OpenRouterResponse;
-
-  if (!res.choices[0].message.content) {
-    fs.writeFileSync("/tmp/ai-response.json", JSON.stringify(res, null, 2));
-    console.error("No content in response...");
-    console.log("Logging to /tmp/ai-response.json");
-    process.exit(1);
+/**
+ * Asks the models of a task for an answer, trying them in order until one
+ * answers within AI_TIMEOUT_SECONDS.
+ *
+ * @param messages - The conversation
+ * @param options - The task, choosing the models
+ * @returns Promise resolving to the answer
+ * @throws AllProvidersFailedError if every model failed
+ */
+export async function askAi(
+  messages: AiMessage[],
+  options: AiOptions,
+): Promise<string> {
+  const failures: ProviderFailure[] = [];
+  for (const choice of getModelChain(options.task)) {
+    const signal = AbortSignal.timeout(AI_TIMEOUT_MS);
+    try {
+      const provider = PROVIDERS[choice.provider]();
+      return await provider.complete(messages, choice.model, signal);
+    } catch (error) {
+      failures.push(providerFailed(choice, error, signal));
+    }
   }
-
-  return res.choices[0].message.content;
+  throw new AllProvidersFailedError(failures);
 }
 
 /**
- * Stream responses from OpenRouter chat completions API.
+ * Streams the answer of the models of a task, trying them in order until
+ * one starts streaming within AI_TIMEOUT_SECONDS. Once streaming has
+ * started, errors are no longer recovered.
  * Yields parsed SSE "data: {json}" objects as they arrive.
+ *
+ * @throws AllProvidersFailedError if every model failed to start streaming
  */
 export async function* askAiStream(
   messages: AiMessage[],
-  options?: AiOptions & { model?: AiModels },
+  options: AiOptions,
 ): AsyncGenerator<OpenRouterStreamChunk> {
-  const fetchParams = {
-    model: options?.model ?? AiModels.PERPLEXITY,
-    messages,
-    stream: true,
-    stream_options: { include_usage: true },
-  } as const;
-
-  const res = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: "Bearer " + process.env.OPENROUTER_API_KEY,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(fetchParams),
-  });
-
-  if (!res.ok) {
-    const bodyText = await res.text();
-    throw new HttpResponseError(res.status, res.statusText, bodyText);
-  }
-
-  const body = res.body;
-  if (!body) return;
-
-  const reader = body.getReader();
-  const decoder = new TextDecoder();
-  let buffer = "";
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      buffer += decoder.decode(value, { stream: true });
-
-      while (true) {
-        const lineEnd = buffer.indexOf("\n");
-        if (lineEnd === -1) break;
-        const line = buffer.slice(0, lineEnd).trim();
-        buffer = buffer.slice(lineEnd + 1);
-
-        if (!line.startsWith("data: ")) continue;
-        const data = line.slice(6);
-        if (data === "[DONE]") return;
-
-        try {
-          const parsed = JSON.parse(data) as OpenRouterStreamChunk;
-          yield parsed;
-        } catch {
-          // Ignore non-JSON payloads
-        }
-      }
+  const failures: ProviderFailure[] = [];
+  for (const choice of getModelChain(options.task)) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), AI_TIMEOUT_MS);
+    let stream: AsyncGenerator<OpenRouterStreamChunk>;
+    try {
+      const provider = PROVIDERS[choice.provider]();
+      stream = await provider.stream(messages, choice.model, controller.signal);
+    } catch (error) {
+      failures.push(providerFailed(choice, error, controller.signal));
+      continue;
+    } finally {
+      clearTimeout(timeout);
     }
-  } finally {
-    reader.releaseLock();
+    yield* stream;
+    return;
   }
+  throw new AllProvidersFailedError(failures);
 }
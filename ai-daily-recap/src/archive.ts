@@ -0,0 +1,103 @@
+import Parser from "rss-parser";
+import {
+  ArchivedArticle,
+  archiveArticles,
+  listFeeds,
+  pruneArchive,
+} from "./storage";
+
+/**
+ * Minutes between two polls of each tracked feed.
+ * Busy feeds only keep their last 20-30 items, so this must be short enough
+ * for no article to scroll out of the feed between two polls.
+ */
+const ARCHIVE_POLL_MINUTES = Number(process.env.ARCHIVE_POLL_MINUTES) || 15;
+
+/** Days archived articles are kept, unless a recap references them. */
+export const ARCHIVE_RETENTION_DAYS =
+  Number(process.env.ARCHIVE_RETENTION_DAYS) || 30;
+
+/**
+ * Converts an RSS item to an archived article.
+ * Handles missing fields with sensible defaults.
+ *
+ * @param item - RSS item from rss-parser
+ * @returns ArchivedArticle, identified by the item's guid when it has one
+ */
+export function toArchivedArticle(item: Parser.Item): ArchivedArticle {
+  return {
+    guid: item.guid || null,
+    title: item.title || "Untitled",
+    link: item.link || "",
+    description: item.contentSnippet || item.content || "",
+    pubDate: item.pubDate || item.isoDate || "",
+    categories: (item.categories ?? []).map(categoryName).filter(Boolean),
+  };
+}
+
+/**
+ * Returns the name of an RSS `category` tag.
+ * rss-parser gives tags with attributes (e.g. `domain`) as xml2js objects
+ * holding the text in `_`, despite its `string[]` typing.
+ *
+ * @param category - Tag as parsed by rss-parser
+ * @returns The tag's text, trimmed
+ */
+function categoryName(category: string | { _?: string }): string {
+  return (typeof category === "string" ? category : (category?._ ?? "")).trim();
+}
+
+/**
+ * Fetches a feed and adds its current articles to the archive.
+ *
+ * @param feedUrl - The RSS feed URL to poll
+ * @returns Number of newly archived articles
+ */
+export async function pollFeed(feedUrl: string): Promise<number> {
+  const parser = new Parser();
+  const feed = await parser.parseURL(feedUrl);
+  return archiveArticles(feedUrl, feed.items.map(toArchivedArticle));
+}
+
+/**
+ * Polls all tracked feeds, then drops the articles past retention.
+ * Feeds are polled sequentially with individual error handling, so one
+ * unreachable feed doesn't prevent archiving the others.
+ */
+export async function pollAllFeeds(): Promise<void> {
+  for (const feedUrl of listFeeds()) {
+    try {
+      const count = await pollFeed(feedUrl);
+      if (count > 0) {
+        console.log(`Archived ${count} new articles from ${feedUrl}`);
+      }
+    } catch (error) {
+      console.error(`Failed to poll ${feedUrl}:`, error);
+    }
+  }
+
+  const retention = ARCHIVE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  pruneArchive(new Date(Date.now() - retention));
+}
+
+/**
+ * Starts polling all tracked feeds every ARCHIVE_POLL_MINUTES, beginning
+ * right away. A poll is skipped if the previous one is still running.
+ */
+export function startArchivePoller(): void {
+  let running = false;
+  const poll = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await pollAllFeeds();
+    } catch (error) {
+      console.error("Failed to poll feeds:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  poll();
+  setInterval(poll, ARCHIVE_POLL_MINUTES * 60 * 1000);
+}
@@ -0,0 +1,64 @@
+import { readJsonConfig } from "./config";
+
+/**
+ * Path to the JSON file defining the named bundles, e.g.
+ * `{ "tech": ["https://a.example/rss", "https://b.example/feed.xml"] }`.
+ */
+const BUNDLES_FILE = process.env.BUNDLES_FILE || "/data/bundles.json";
+
+/** Feeds of each named bundle. */
+type BundlesConfig = {
+  [name: string]: string[];
+};
+
+/**
+ * Several feeds recapped together, as a single feed.
+ * Stored as a feed whose URL is its `key`.
+ */
+export type Bundle = {
+  /** Identifier stored in place of a feed URL, starting with "bundle:" */
+  key: string;
+  /** Name shown in the generated feed's title */
+  name: string;
+  /** The RSS feed URLs merged, sorted */
+  feedUrls: string[];
+};
+
+/**
+ * Returns a bundle defined in BUNDLES_FILE.
+ *
+ * @param name - Name of the bundle in the file
+ * @returns The bundle, null if it is not defined or has no feeds
+ */
+export function getNamedBundle(name: string): Bundle | null {
+  const feedUrls = readJsonConfig<BundlesConfig>(BUNDLES_FILE)[name];
+  if (!Array.isArray(feedUrls)) return null;
+
+  const urls = [...new Set(feedUrls.filter((u) => typeof u === "string"))];
+  if (urls.length === 0) return null;
+  return { key: `bundle:${name}`, name, feedUrls: urls.sort() };
+}
+
+/**
+ * Returns the bundle of feeds given directly in a request.
+ * The same feeds, in any order, always make the same bundle.
+ *
+ * @param feedUrls - The RSS feed URLs to merge
+ * @returns The bundle
+ */
+export function getAdHocBundle(feedUrls: string[]): Bundle {
+  const urls = [...new Set(feedUrls)].sort();
+  return {
+    key: `bundle:${urls.join(" ")}`,
+    name: urls
+      .map((url) => {
+        try {
+          return new URL(url).hostname;
+        } catch {
+          return url;
+        }
+      })
+      .join(", "),
+    feedUrls: urls,
+  };
+}
@@ -0,0 +1,21 @@
+import fs from "fs";
+
+/**
+ * Reads a JSON configuration file, such as the bundles or the topic rules.
+ * Read anew on each call, so edits apply without a restart.
+ *
+ * @param file - Path to the JSON file
+ * @returns The file's top-level object, or an empty one if the file is
+ *   missing or invalid (logged)
+ */
+export function readJsonConfig<T extends object>(file: string): T {
+  if (!fs.existsSync(file)) return {} as T;
+
+  try {
+    const config = JSON.parse(fs.readFileSync(file, "utf-8"));
+    return typeof config === "object" && config !== null ? config : ({} as T);
+  } catch (error) {
+    console.error(`Failed to read ${file}:`, error);
+    return {} as T;
+  }
+}
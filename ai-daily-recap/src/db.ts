@@ -0,0 +1,121 @@
+import { Database } from "bun:sqlite";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Path to the SQLite database.
+ * Defaults to `/data`, which is meant to be a mounted volume so recaps
+ * survive container restarts.
+ */
+export const DATABASE_FILE =
+  process.env.DATABASE_FILE || "/data/ai-daily-recap.sqlite";
+
+/**
+ * Schema migrations, applied in order.
+ * `PRAGMA user_version` holds the number of migrations already applied, so
+ * each one runs exactly once. Never edit a released migration: append a new
+ * one instead.
+ */
+const MIGRATIONS: string[] = [
+  `CREATE TABLE feeds (
+    url TEXT PRIMARY KEY,
+    created_at INTEGER NOT NULL
+  );
+  CREATE TABLE recaps (
+    feed_url TEXT NOT NULL REFERENCES feeds (url) ON DELETE CASCADE,
+    date TEXT NOT NULL,
+    html TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (feed_url, date)
+  );
+  CREATE TABLE articles (
+    feed_url TEXT NOT NULL REFERENCES feeds (url) ON DELETE CASCADE,
+    link TEXT NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    pub_date TEXT NOT NULL,
+    PRIMARY KEY (feed_url, link)
+  );
+  CREATE TABLE recap_articles (
+    feed_url TEXT NOT NULL,
+    date TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    link TEXT NOT NULL,
+    PRIMARY KEY (feed_url, date, position),
+    FOREIGN KEY (feed_url, date) REFERENCES recaps (feed_url, date) ON DELETE CASCADE,
+    FOREIGN KEY (feed_url, link) REFERENCES articles (feed_url, link)
+  );`,
+  `ALTER TABLE articles ADD COLUMN guid TEXT;
+  ALTER TABLE articles ADD COLUMN published_at INTEGER;
+  ALTER TABLE articles ADD COLUMN archived_at INTEGER;
+  CREATE UNIQUE INDEX articles_guid ON articles (feed_url, guid);
+  CREATE INDEX articles_published_at ON articles (feed_url, published_at);`,
+  `ALTER TABLE feeds ADD COLUMN timezone TEXT;
+  ALTER TABLE feeds ADD COLUMN recap_hour INTEGER;`,
+  `CREATE TABLE jobs (
+    id INTEGER PRIMARY KEY,
+    type TEXT NOT NULL,
+    feed_url TEXT NOT NULL REFERENCES feeds (url) ON DELETE CASCADE,
+    date TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_run_at INTEGER NOT NULL,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    UNIQUE (type, feed_url, date)
+  );
+  CREATE INDEX jobs_next_run_at ON jobs (status, next_run_at);`,
+  `CREATE TABLE digests (
+    feed_url TEXT NOT NULL REFERENCES feeds (url) ON DELETE CASCADE,
+    period TEXT NOT NULL,
+    start_date TEXT NOT NULL,
+    end_date TEXT NOT NULL,
+    html TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (feed_url, period, start_date)
+  );`,
+  `ALTER TABLE feeds ADD COLUMN kind TEXT NOT NULL DEFAULT 'feed';
+  ALTER TABLE feeds ADD COLUMN recapped INTEGER NOT NULL DEFAULT 1;
+  CREATE TABLE bundle_feeds (
+    bundle_url TEXT NOT NULL REFERENCES feeds (url) ON DELETE CASCADE,
+    feed_url TEXT NOT NULL REFERENCES feeds (url) ON DELETE CASCADE,
+    PRIMARY KEY (bundle_url, feed_url)
+  );`,
+  `ALTER TABLE articles ADD COLUMN categories TEXT;
+  ALTER TABLE recaps ADD COLUMN excluded_count INTEGER NOT NULL DEFAULT 0;`,
+];
+
+fs.mkdirSync(path.dirname(DATABASE_FILE), { recursive: true });
+
+/**
+ * Shared connection to the database.
+ * Bun's SQLite driver is synchronous, so each transaction runs without
+ * interleaving with the other requests and jobs of the process.
+ */
+export const db = new Database(DATABASE_FILE, { create: true });
+db.exec("PRAGMA journal_mode = WAL;");
+db.exec("PRAGMA foreign_keys = ON;");
+db.exec("PRAGMA busy_timeout = 5000;");
+migrate();
+
+/**
+ * Applies the migrations the database hasn't seen yet.
+ * Each migration runs in its own transaction along with the version bump,
+ * so a failing migration leaves the database at the previous version.
+ */
+function migrate(): void {
+  const { user_version } = db
+    .query<{ user_version: number }, []>("PRAGMA user_version")
+    .get()!;
+
+  for (let version = user_version; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.exec(`PRAGMA user_version = ${version + 1}`);
+    })();
+    console.log(`Database migrated to version ${version + 1}`);
+  }
+}
@@ -0,0 +1,117 @@
+import { askAi } from "./ai";
+import { curatorPrompt, sampleEvenly } from "./recap";
+import { getDailyRecaps, storeDigest } from "./storage";
+import { periodEnd } from "./timezone";
+import { hasTopicRules } from "./topics";
+import { DailyRecap, Digest, DigestPeriod } from "./types";
+
+/**
+ * Source articles listed per daily recap in the digest prompt.
+ * The recaps already link to their main stories; titles of the other
+ * articles help spot stories running over several days.
+ */
+const ARTICLES_PER_RECAP: Record<DigestPeriod, number> = {
+  week: 20,
+  month: 8,
+};
+
+/**
+ * Generates an AI-powered digest from the daily recaps of a period.
+ *
+ * Algorithm:
+ * 1. Build system message with instructions for the AI curator
+ * 2. Format each daily recap with its date, html, and the titles and links
+ *    of some of its source articles (spread over the day)
+ * 3. Send messages to LLM via askAi()
+ * 4. Return the generated html digest
+ *
+ * @param recaps - Daily recaps of the period, oldest first
+ * @param period - "week" or "month"
+ * @param excludeSport - Whether to ask to leave sport out
+ * @returns Promise resolving to html-formatted digest text
+ */
+export async function generateDigestForRecaps(
+  recaps: DailyRecap[],
+  period: DigestPeriod,
+  excludeSport = true,
+): Promise<string> {
+  // Build system message with instructions
+  const systemMessage = {
+    role: "system" as const,
+    content: curatorPrompt(
+      `Your job is to read the daily recaps of a ${period} and create a concise, engaging digest of the ${period}, for readers who only skim the news once a ${period}.`,
+      "digest",
+      [
+        `Focus on the 5-8 most important stories of the ${period}`,
+        "Merge the follow-ups of a story published over several days into a single entry",
+        "Include clickable links to original articles",
+      ],
+      excludeSport,
+    ),
+  };
+
+  // Format recaps text
+  const recapsText = recaps
+    .map((recap) => {
+      const articles = sampleEvenly(recap.articles, ARTICLES_PER_RECAP[period])
+        .map((article) => `- [${article.title}](${article.link})`)
+        .join("\n");
+      return `## ${recap.date}\n\n${recap.html}\n\nSource articles:\n${articles}`;
+    })
+    .join("\n\n");
+
+  // Build user message
+  const userMessage = {
+    role: "user" as const,
+    content: `Here are the daily recaps of the ${period}:\n\n${recapsText}\n\nGenerate a ${period}ly digest.`,
+  };
+
+  // Call AI to generate digest
+  return askAi([systemMessage, userMessage], {
+    task: "digest",
+  });
+}
+
+/**
+ * Generates the digest of a feed for a week or a month, from its stored
+ * daily recaps, and stores it.
+ *
+ * @param feedUrl - The RSS feed URL to process
+ * @param period - "week" or "month"
+ * @param startDate - First day of the period, in YYYY-MM-DD format
+ * @returns Promise that resolves when digest is generated and stored; rejects
+ *          if the digest could not be generated, so the job is retried
+ */
+export async function generateDigestForFeed(
+  feedUrl: string,
+  period: DigestPeriod,
+  startDate: string,
+): Promise<void> {
+  const endDate = periodEnd(startDate, period);
+  const recaps = (getDailyRecaps(feedUrl) ?? []).filter(
+    (recap) => recap.date >= startDate && recap.date <= endDate,
+  );
+
+  if (recaps.length === 0) {
+    console.log(
+      `No recaps found for ${feedUrl} from ${startDate} to ${endDate}`,
+    );
+    return;
+  }
+
+  const digest: Digest = {
+    period,
+    startDate,
+    endDate,
+    html: await generateDigestForRecaps(
+      recaps,
+      period,
+      !hasTopicRules(feedUrl),
+    ),
+  };
+
+  storeDigest(feedUrl, digest);
+  console.log(
+    `Generated ${period} digest for ${feedUrl} from ${startDate} to ${endDate}: ${recaps.length} recaps`,
+  );
+}
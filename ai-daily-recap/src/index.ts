@@ -1,22 +1,29 @@
 import { serve } from "bun";
 import RSS from "rss";
-import Parser from "rss-parser";
 import { parse as parseHtml, TextNode, HTMLElement } from "node-html-parser";
+import { checkAiConfig } from "./ai";
+import { startArchivePoller } from "./archive";
+import { getAdHocBundle, getNamedBundle } from "./bundles";
 import {
-  filterArticlesByDate,
-  formatDate,
-  generateHistoricalRecaps,
-  generateRecapForArticles,
-} from "./recap";
-import {
+  addBundle,
+  addFeed,
   getDailyRecaps,
+  getDigests,
+  getFeedSettings,
   initializeStorage,
-  readStorage,
-  storeRecap,
+  updateFeedSettings,
 } from "./storage";
-import { DailyRecap } from "./types";
+import { runScheduler, startScheduler } from "./scheduler";
+import {
+  addDays,
+  formatDateInZone,
+  isValidTimezone,
+  zonedTimeToDate,
+} from "./timezone";
+import { DailyRecap, Digest, DigestPeriod, FeedSettings } from "./types";
 import { initializeDigCache } from "./digCache";
 import { digRoutes } from "./routes/dig";
+import { jobRoutes } from "./routes/jobs";
 
 /**
  * Extracts domain from a URL for display purposes.
@@ -116,45 +123,146 @@ function rewriteLinksToDig(html: string, hostBase: string): string {
   }
 }
 
+/** Period covered by each item of a generated feed. */
+type Period = "day" | DigestPeriod;
+
+const PERIODS: Period[] = ["day", "week", "month"];
+
+/** Titles of the generated feeds, by period. */
+const FEED_TITLES: Record<Period, string> = {
+  day: "AI Daily Recap",
+  week: "AI Weekly Digest",
+  month: "AI Monthly Digest",
+};
+
+/** Number of digests given in weekly and monthly feeds. */
+const DIGEST_LIMITS: Record<DigestPeriod, number> = {
+  week: 8,
+  month: 6,
+};
+
+/**
+ * What a generated feed recaps: a single RSS feed, or a bundle of feeds.
+ */
+type RecapSource = {
+  /** Identifier recaps are stored under: the feed URL or the bundle key */
+  key: string;
+  /** Name shown in the feed's title */
+  name: string;
+  /** The RSS feed URLs recapped */
+  feedUrls: string[];
+  /** Query parameters selecting this source, e.g. "bundle=tech" */
+  query: string;
+};
+
+/** Why a request's feed or bundle can't be recapped, with the HTTP status. */
+type RecapSourceError = {
+  status: number;
+  message: string;
+};
+
+/**
+ * An item of a generated feed: a daily recap or a digest.
+ */
+type FeedItem = {
+  title: string;
+  /** Unique per feed, stable across regenerations */
+  guid: string;
+  html: string;
+  /** First day covered, in YYYY-MM-DD format */
+  date: string;
+};
+
+/**
+ * Converts daily recaps to feed items.
+ * Recaps mention how many articles the topic rules left out, to help
+ * tuning them.
+ *
+ * @param feedUrl - The source RSS feed URL
+ * @param recaps - Daily recaps to include
+ * @returns Feed items
+ */
+function recapItems(feedUrl: string, recaps: DailyRecap[]): FeedItem[] {
+  return recaps.map((recap) => ({
+    title: `Daily Recap - ${recap.date}`,
+    guid: `${feedUrl}#${recap.date}`,
+    html: recap.excludedCount
+      ? `${recap.html}<p><small>${recap.excludedCount} articles left out by topic rules</small></p>`
+      : recap.html,
+    date: recap.date,
+  }));
+}
+
 /**
- * Builds an RSS feed from stored daily recaps.
+ * Converts weekly or monthly digests to feed items.
+ *
+ * @param feedUrl - The source RSS feed URL
+ * @param digests - Digests to include
+ * @returns Feed items
+ */
+function digestItems(feedUrl: string, digests: Digest[]): FeedItem[] {
+  return digests.map((digest) => ({
+    title:
+      digest.period === "week"
+        ? `Weekly Digest - ${digest.startDate} to ${digest.endDate}`
+        : `Monthly Digest - ${digest.startDate.slice(0, 7)}`,
+    guid: `${feedUrl}#${digest.period}-${digest.startDate}`,
+    html: digest.html,
+    date: digest.startDate,
+  }));
+}
+
+/**
+ * Builds an RSS feed from stored daily recaps or digests.
  *
  * Algorithm:
- * 1. Create RSS feed with metadata derived from source feed URL
- * 2. Sort recaps by date (newest first)
- * 3. Add each recap as an RSS item with proper formatting
+ * 1. Create RSS feed with metadata derived from source feed URL and period
+ * 2. Sort items by date (newest first)
+ * 3. Add each item with proper formatting
  * 4. Return XML string
  *
- * @param feedUrl - The source RSS feed URL
- * @param recaps - Array of DailyRecap objects to include
+ * @param source - The feed or bundle recapped
+ * @param period - Period covered by each item
+ * @param items - Recaps or digests to include
+ * @param timeZone - Timezone of the feed, in which item dates start
  * @returns RSS XML string
  */
-function buildRSSFeed(feedUrl: string, recaps: DailyRecap[]): string {
-  const domain = extractDomain(feedUrl);
+function buildRSSFeed(
+  source: RecapSource,
+  period: Period,
+  items: FeedItem[],
+  timeZone: string,
+): string {
   const hostBase = safeHostBase();
   const feedLang = "en"; // retained for RSS metadata only
+  const periodParam = period === "day" ? "" : `&period=${period}`;
+  const selfUrl = `${hostBase}/?${source.query}${periodParam}`;
+  // A bundle has no site of its own
+  const siteUrl = source.feedUrls.length === 1 ? source.feedUrls[0] : selfUrl;
+  const sources = source.feedUrls.join(", ");
 
   const feed = new RSS({
-    title: `AI Daily Recap - ${domain}`,
-    description: `Daily AI-generated summaries from ${feedUrl}`,
-    feed_url: `${hostBase}/?feed=${encodeURIComponent(feedUrl)}`,
-    site_url: feedUrl,
+    title: `${FEED_TITLES[period]} - ${source.name}`,
+    description:
+      period === "day"
+        ? `Daily AI-generated summaries from ${sources}`
+        : `${period === "week" ? "Weekly" : "Monthly"} AI-generated digests from ${sources}`,
+    feed_url: selfUrl,
+    site_url: siteUrl,
     language: feedLang,
   });
 
-  // Sort recaps by date (newest first)
-  const sortedRecaps = [...recaps].sort(
-    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
-  );
+  // Sort items by date (newest first)
+  const sortedItems = [...items].sort((a, b) => b.date.localeCompare(a.date));
 
-  for (const recap of sortedRecaps) {
-    const rewritten = rewriteLinksToDig(recap.html, hostBase);
+  for (const item of sortedItems) {
+    const rewritten = rewriteLinksToDig(item.html, hostBase);
     feed.item({
-      title: `Daily Recap - ${recap.date}`,
+      title: item.title,
       description: rewritten,
-      url: feedUrl,
-      guid: `${feedUrl}#${recap.date}`,
-      date: new Date(recap.date),
+      url: siteUrl,
+      guid: item.guid,
+      date: zonedTimeToDate(item.date, 0, timeZone),
     });
   }
 
@@ -162,59 +270,97 @@ function buildRSSFeed(feedUrl: string, recaps: DailyRecap[]): string {
 }
 
 /**
- * Generates a daily recap for a specific feed for yesterday's date.
- * Fetches the feed, filters articles for yesterday, and generates recap if articles found.
+ * Parses what a request asks to recap.
+ *
+ * Rules:
+ * - `bundle=<name>`, or `feed=bundle:<name>`: the bundle of this name in
+ *   BUNDLES_FILE, never a feed, since its key is the bundle's
+ * - several `feed=` parameters: the bundle of these feeds
+ * - a single `feed=` parameter: this feed alone
  *
- * @param feedUrl - The RSS feed URL to process
- * @returns Promise that resolves when recap is generated and stored
+ * @param params - Query parameters (`feed`, `bundle`)
+ * @returns The feed or bundle, or why none is valid
  */
-async function generateRecapForFeed(feedUrl: string): Promise<void> {
-  const parser = new Parser();
-  const feed = await parser.parseURL(feedUrl);
-
-  // Get yesterday's date
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
+function parseRecapSource(
+  params: URLSearchParams,
+): RecapSource | RecapSourceError {
+  const feedUrls = [...new Set(params.getAll("feed").filter(Boolean))];
+  const bundleFeed = feedUrls.find((feedUrl) => feedUrl.startsWith("bundle:"));
+  if (bundleFeed && feedUrls.length > 1) {
+    return {
+      status: 400,
+      message: `${bundleFeed} can't be combined with other feeds`,
+    };
+  }
 
-  // Filter articles for yesterday
-  const articlesForYesterday = filterArticlesByDate(feed.items, yesterday);
+  const bundleName =
+    params.get("bundle") ?? bundleFeed?.slice("bundle:".length) ?? null;
+  if (bundleName !== null) {
+    const bundle = getNamedBundle(bundleName);
+    if (!bundle) {
+      return { status: 404, message: `Unknown bundle: ${bundleName}` };
+    }
+    return {
+      key: bundle.key,
+      name: bundle.name,
+      feedUrls: bundle.feedUrls,
+      query: `bundle=${encodeURIComponent(bundleName)}`,
+    };
+  }
 
-  if (articlesForYesterday.length > 0) {
-    const html = await generateRecapForArticles(articlesForYesterday);
+  if (feedUrls.length === 0) {
+    return { status: 400, message: "No feed specified" };
+  }
 
-    const recap: DailyRecap = {
-      date: formatDate(yesterday),
-      html: html,
-      articles: articlesForYesterday,
+  if (feedUrls.length === 1) {
+    return {
+      key: feedUrls[0],
+      name: extractDomain(feedUrls[0]),
+      feedUrls,
+      query: `feed=${encodeURIComponent(feedUrls[0])}`,
     };
-
-    storeRecap(feedUrl, recap);
-    console.log(
-      `Generated recap for ${feedUrl} on ${formatDate(yesterday)}: ${articlesForYesterday.length} articles`,
-    );
-  } else {
-    console.log(`No articles found for ${feedUrl} on ${formatDate(yesterday)}`);
   }
+
+  const bundle = getAdHocBundle(feedUrls);
+  return {
+    key: bundle.key,
+    name: bundle.name,
+    feedUrls: bundle.feedUrls,
+    query: bundle.feedUrls
+      .map((feedUrl) => `feed=${encodeURIComponent(feedUrl)}`)
+      .join("&"),
+  };
 }
 
 /**
- * Generates daily recaps for all tracked feeds.
- * Called by scheduler at midnight.
- * Processes all feeds in parallel with individual error handling.
+ * Parses the optional feed settings of a request.
+ *
+ * @param params - Query parameters (`tz`, `recap_hour`)
+ * @returns The settings given, or an error message if one is invalid
  */
-async function generateDailyRecapsForAllFeeds(): Promise<void> {
-  console.log("Starting daily recap generation for all feeds...");
-  const storage = readStorage();
-
-  const feedKeys = Object.keys(storage);
-  const promises = feedKeys.map(async (feedUrl) => {
-    return generateRecapForFeed(feedUrl).catch((err) => {
-      console.error(`Failed to generate recap for ${feedUrl}:`, err);
-    });
-  });
+function parseFeedSettings(
+  params: URLSearchParams,
+): Partial<FeedSettings> | string {
+  const settings: Partial<FeedSettings> = {};
+
+  const timezone = params.get("tz");
+  if (timezone !== null) {
+    if (!isValidTimezone(timezone)) {
+      return `Invalid tz: ${timezone} (expected an IANA timezone, e.g. Europe/Paris)`;
+    }
+    settings.timezone = timezone;
+  }
 
-  await Promise.all(promises);
-  console.log("Daily recap generation completed for all feeds");
+  const recapHour = params.get("recap_hour");
+  if (recapHour !== null) {
+    const hour = Number(recapHour);
+    if (recapHour === "" || !Number.isInteger(hour) || hour < 0 || hour > 23) {
+      return `Invalid recap_hour: ${recapHour} (expected an integer from 0 to 23)`;
+    }
+    settings.recapHour = hour;
+  }
+
+  return settings;
 }
 
 // Initialize storage and dig cache at startup
@@ -222,12 +368,15 @@ initializeStorage();
 initializeDigCache();
 console.log("Storage initialized");
 
-// Check for required environment variables
-if (!process.env.OPENROUTER_API_KEY) {
-  console.warn(
-    "WARNING: OPENROUTER_API_KEY not set - AI recap generation will fail",
-  );
-}
+// Archive the articles of all tracked feeds as they are published
+startArchivePoller();
+
+// Recap each feed's previous day at its recap hour, and catch up on the
+// days missed while the service was down
+startScheduler();
+
+// Check the AI providers' environment variables
+checkAiConfig();
 
 // Start HTTP server
 const port = Number(process.env.PORT) || 3000;
@@ -236,57 +385,80 @@ serve({
   idleTimeout: 120,
   routes: {
     ...digRoutes(),
+    ...jobRoutes(),
     /**
      * Main RSS endpoint.
-     * Accepts `feed` query parameter and returns transformed RSS with AI recaps.
+     * Accepts `feed` query parameter and returns transformed RSS with AI recaps,
+     * or with weekly/monthly digests of them given `period=week|month`.
+     * Several `feed` parameters, or a `bundle` name, recap several feeds
+     * together.
      * Automatically initializes and generates historical recaps for new feeds.
      */
     "/": async (req) => {
       try {
         const url = new URL(req.url);
-        const feedUrl = url.searchParams.get("feed");
+        const source = parseRecapSource(url.searchParams);
+        if ("message" in source) {
+          return new Response(source.message, { status: source.status });
+        }
+        const feedUrl = source.key;
+        const isBundle = feedUrl !== source.feedUrls[0];
+
+        const period = (url.searchParams.get("period") ?? "day") as Period;
+        if (!PERIODS.includes(period)) {
+          return new Response(
+            `Invalid period: ${period} (expected one of ${PERIODS.join(", ")})`,
+            { status: 400 },
+          );
+        }
 
-        if (!feedUrl) {
-          return new Response("No feed specified", { status: 400 });
+        const settings = parseFeedSettings(url.searchParams);
+        if (typeof settings === "string") {
+          return new Response(settings, { status: 400 });
         }
 
         // Try to get existing feed recaps
         let recaps = getDailyRecaps(feedUrl);
 
         if (!recaps) {
-          // If feed is new, initialize and generate historical recaps
+          // If feed is new, track it and generate historical recaps
           console.log(`New feed detected: ${feedUrl}`);
+          if (isBundle) {
+            addBundle(feedUrl, source.feedUrls);
+          } else {
+            addFeed(feedUrl);
+          }
+          updateFeedSettings(feedUrl, settings);
           console.log(
             "Generating historical recaps in the background (5 days)...",
           );
-
-          try {
-            generateHistoricalRecaps(feedUrl, 5).then(() => {
-              console.log(`Historical recaps generated for ${feedUrl}`);
-            });
-          } catch (error) {
-            console.error(
-              `Failed to generate historical recaps for ${feedUrl}:`,
-              error,
-            );
-            // Continue even if historical generation fails
-          }
+          runScheduler();
 
           // Refresh feed recaps after generation
           recaps = getDailyRecaps(feedUrl);
+        } else if (isBundle) {
+          // A named bundle's feeds follow the bundles file. Settings only
+          // apply to new feeds: the feed is shared by everyone requesting
+          // it, who would otherwise keep moving its days and recap time
+          addBundle(feedUrl, source.feedUrls);
         }
 
         recaps = recaps || [];
+        const { timezone } = getFeedSettings(feedUrl)!;
+
+        let items: FeedItem[];
+        if (period === "day") {
+          // Only giving 7 days of recaps
+          const weekAgo = addDays(formatDateInZone(new Date(), timezone), -7);
+          const recentRecaps = recaps.filter((r) => r.date > weekAgo);
+          items = recapItems(feedUrl, recentRecaps);
+        } else {
+          const digests = getDigests(feedUrl, period, DIGEST_LIMITS[period]);
+          items = digestItems(feedUrl, digests);
+        }
 
-        // Only giving 7 days of recaps
-        const today = Date.now();
-        const msInDay = 24 * 60 * 60 * 1000;
-        const recentRecaps = recaps.filter(
-          (r) => today - Date.parse(r.date) < msInDay * 7,
-        );
-
-        // Build RSS feed from stored recaps
-        const rssXml = buildRSSFeed(feedUrl, recentRecaps);
+        // Build RSS feed from stored recaps or digests
+        const rssXml = buildRSSFeed(source, period, items, timezone);
 
         return new Response(rssXml, {
           headers: {
@@ -313,21 +485,3 @@ console.log("Or with Node:");
 console.log(
   `'http://ai-daily-recap:${port}?feed=' + encodeURIComponent('https://...')`,
 );
-
-const now = Date.now();
-const msInDay = 24 * 60 * 60 * 1000;
-const msFromMidnight = now % msInDay;
-const msToMidnight = msInDay - msFromMidnight;
-
-setTimeout(() => {
-  // Will trigger at midnight today
-  generateDailyRecapsForAllFeeds().catch((err) => {
-    console.error("Failed to generate daily recaps:", err);
-  });
-  setInterval(() => {
-    // Will trigger every day at midnight
-    generateDailyRecapsForAllFeeds().catch((err) => {
-      console.error("Failed to generate daily recaps:", err);
-    });
-  }, msInDay);
-}, msToMidnight);
@@ -0,0 +1,231 @@
+import { db } from "./db";
+
+/** Maximum number of runs of a job before it is marked as failed. */
+const JOB_MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || 5;
+
+/** Delay before the first retry of a failed run, doubled at each retry. */
+const JOB_RETRY_BASE_MS = 5 * 60 * 1000;
+
+/**
+ * How long a run may take before its job can be claimed again.
+ * Protects against runs interrupted by a crash or a restart, which would
+ * otherwise stay "running" forever.
+ */
+const JOB_LEASE_MS = 15 * 60 * 1000;
+
+/** Kinds of jobs, each with its own handler in the scheduler. */
+export type JobType = "daily_recap" | "weekly_digest" | "monthly_digest";
+
+/**
+ * Lifecycle of a job:
+ * - pending: waiting for `nextRunAt`, first run or retry
+ * - running: claimed by a worker until `nextRunAt` (lease)
+ * - done: completed successfully
+ * - failed: every attempt failed, `lastError` holds the last error
+ */
+export type JobStatus = "pending" | "running" | "done" | "failed";
+
+/** A persisted unit of work, unique per type, feed and date. */
+export type Job = {
+  id: number;
+  type: JobType;
+  feedUrl: string;
+  /** Date the job works on, in YYYY-MM-DD format */
+  date: string;
+  status: JobStatus;
+  /** Number of runs started so far */
+  attempts: number;
+  /** Timestamp of the next run (pending) or end of the lease (running) */
+  nextRunAt: number;
+  lastError: string | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+type JobRow = {
+  id: number;
+  type: JobType;
+  feed_url: string;
+  date: string;
+  status: JobStatus;
+  attempts: number;
+  next_run_at: number;
+  last_error: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+/**
+ * Converts a database row to a Job.
+ */
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    type: row.type,
+    feedUrl: row.feed_url,
+    date: row.date,
+    status: row.status,
+    attempts: row.attempts,
+    nextRunAt: row.next_run_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Adds a job to the queue, unless one already exists for this type, feed
+ * and date, whatever its status. Done and failed jobs are never enqueued
+ * again, so a day is recapped at most once.
+ *
+ * @param type - Kind of job
+ * @param feedUrl - Tracked feed the job works on
+ * @param date - Date the job works on, in YYYY-MM-DD format
+ * @param runAt - Earliest run time, now by default
+ * @returns true if the job was added
+ */
+export function enqueueJob(
+  type: JobType,
+  feedUrl: string,
+  date: string,
+  runAt: Date = new Date(),
+): boolean {
+  const now = Date.now();
+  return (
+    db
+      .query(
+        `INSERT OR IGNORE INTO jobs (type, feed_url, date, status, next_run_at, created_at, updated_at)
+         VALUES (?, ?, ?, 'pending', ?, ?, ?)`,
+      )
+      .run(type, feedUrl, date, runAt.getTime(), now, now).changes > 0
+  );
+}
+
+/**
+ * Claims the next due job: a pending job whose run time has passed, or a
+ * running job whose lease expired.
+ * The claim is a single UPDATE, so two workers (or two processes sharing the
+ * database) never claim the same job.
+ *
+ * @returns The claimed job, now running, or null if no job is due
+ */
+export function claimNextJob(): Job | null {
+  const now = Date.now();
+  const row = db
+    .query<JobRow, [number, number, number]>(
+      `UPDATE jobs SET
+         status = 'running',
+         attempts = attempts + 1,
+         next_run_at = ?,
+         updated_at = ?
+       WHERE id = (
+         SELECT id FROM jobs
+         WHERE status IN ('pending', 'running') AND next_run_at <= ?
+         ORDER BY next_run_at, id
+         LIMIT 1
+       )
+       RETURNING *`,
+    )
+    .get(now + JOB_LEASE_MS, now, now);
+  return row ? toJob(row) : null;
+}
+
+/**
+ * Marks a claimed job as done.
+ *
+ * @param id - The job id
+ */
+export function completeJob(id: number): void {
+  db.query(
+    "UPDATE jobs SET status = 'done', last_error = NULL, updated_at = ? WHERE id = ?",
+  ).run(Date.now(), id);
+}
+
+/**
+ * Records the failure of a claimed job's run.
+ * The job is retried after 5 minutes, then 10, 20... until JOB_MAX_ATTEMPTS
+ * runs failed, after which it stays failed until retried by hand.
+ *
+ * @param job - The job, as claimed
+ * @param error - What the run threw
+ * @returns The job status after this failure
+ */
+export function failJob(job: Job, error: unknown): JobStatus {
+  const now = Date.now();
+  const status = job.attempts >= JOB_MAX_ATTEMPTS ? "failed" : "pending";
+  const retryAt = now + JOB_RETRY_BASE_MS * 2 ** (job.attempts - 1);
+
+  db.query(
+    `UPDATE jobs SET status = ?, next_run_at = ?, last_error = ?, updated_at = ?
+     WHERE id = ?`,
+  ).run(status, retryAt, String(error), now, job.id);
+  return status;
+}
+
+/**
+ * Puts a failed job back in the queue, with a fresh set of attempts.
+ *
+ * @param id - The job id
+ * @returns true if the job was failed and is now pending
+ */
+export function retryJob(id: number): boolean {
+  const now = Date.now();
+  return (
+    db
+      .query(
+        `UPDATE jobs SET status = 'pending', attempts = 0, next_run_at = ?, updated_at = ?
+         WHERE id = ? AND status = 'failed'`,
+      )
+      .run(now, now, id).changes > 0
+  );
+}
+
+/**
+ * Checks whether jobs of a feed are still to run (pending or running) for
+ * some dates of a range.
+ *
+ * @param type - Kind of job
+ * @param feedUrl - The RSS feed URL
+ * @param from - First date of the range, in YYYY-MM-DD format
+ * @param to - Last date of the range, in YYYY-MM-DD format
+ * @returns true if at least one job is still to run
+ */
+export function hasUnfinishedJobs(
+  type: JobType,
+  feedUrl: string,
+  from: string,
+  to: string,
+): boolean {
+  return (
+    db
+      .query(
+        `SELECT 1 FROM jobs
+         WHERE type = ? AND feed_url = ? AND date BETWEEN ? AND ?
+         AND status IN ('pending', 'running')
+         LIMIT 1`,
+      )
+      .get(type, feedUrl, from, to) !== null
+  );
+}
+
+/**
+ * Lists jobs, most recently updated first.
+ *
+ * @param filter - Only jobs with this status and/or of this feed
+ * @param limit - Maximum number of jobs returned
+ * @returns The jobs
+ */
+export function listJobs(
+  filter: { status?: JobStatus; feedUrl?: string } = {},
+  limit: number = 100,
+): Job[] {
+  return db
+    .query<JobRow, [string | null, string | null, number]>(
+      `SELECT * FROM jobs
+       WHERE (?1 IS NULL OR status = ?1) AND (?2 IS NULL OR feed_url = ?2)
+       ORDER BY updated_at DESC, id DESC
+       LIMIT ?3`,
+    )
+    .all(filter.status ?? null, filter.feedUrl ?? null, limit)
+    .map(toJob);
+}
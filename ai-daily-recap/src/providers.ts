@@ -0,0 +1,262 @@
+import crypto from "crypto";
+import type {
+  AiMessage,
+  OpenRouterResponse,
+  OpenRouterStreamChunk,
+} from "./ai";
+
+/** Error thrown by a provider failing to answer. */
+export class AiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AiError";
+  }
+}
+
+/** Error thrown when a provider or a task's models are misconfigured. */
+export class AiConfigError extends AiError {
+  constructor(message: string) {
+    super(message);
+    this.name = "AiConfigError";
+  }
+}
+
+/** Error thrown when a provider returns a non-OK status. */
+export class HttpResponseError extends AiError {
+  status: number;
+  statusText: string;
+  bodyText: string;
+  constructor(status: number, statusText: string, bodyText: string) {
+    super(`HTTP ${status} ${statusText}: ${bodyText}`);
+    this.name = "HttpResponseError";
+    this.status = status;
+    this.statusText = statusText;
+    this.bodyText = bodyText;
+  }
+}
+
+/** Error thrown when a provider's response holds no content. */
+export class EmptyResponseError extends AiError {
+  /** The response received, for debugging */
+  response: unknown;
+  constructor(response: unknown) {
+    super(`No content in response: ${JSON.stringify(response).slice(0, 500)}`);
+    this.name = "EmptyResponseError";
+    this.response = response;
+  }
+}
+
+/** Error thrown when a provider takes longer than the configured timeout. */
+export class AiTimeoutError extends AiError {
+  constructor(timeoutMs: number) {
+    super(`No response within ${timeoutMs / 1000}s`);
+    this.name = "AiTimeoutError";
+  }
+}
+
+/** A provider of a fallback chain that failed, and why. */
+export type ProviderFailure = {
+  provider: string;
+  model: string;
+  error: unknown;
+};
+
+/** Error thrown when every provider of a fallback chain failed. */
+export class AllProvidersFailedError extends AiError {
+  /** Failures of each provider tried, in order */
+  failures: ProviderFailure[];
+  constructor(failures: ProviderFailure[]) {
+    super(
+      `All AI providers failed: ${failures
+        .map((f) => `${f.provider}:${f.model} (${String(f.error)})`)
+        .join(", ")}`,
+    );
+    this.name = "AllProvidersFailedError";
+    this.failures = failures;
+  }
+}
+
+/**
+ * A backend answering chat completions. Models are named as the backend
+ * names them, e.g. "openai/gpt-4.1" on OpenRouter or "llama3.1" on Ollama.
+ */
+export type AiProvider = {
+  /**
+   * Returns the complete answer to the messages.
+   *
+   * @throws AiError if the provider fails to answer
+   */
+  complete(
+    messages: AiMessage[],
+    model: string,
+    signal: AbortSignal,
+  ): Promise<string>;
+  /**
+   * Starts streaming the answer to the messages. Resolves once the provider
+   * has accepted the request, so a failing provider can be skipped before
+   * anything is streamed.
+   *
+   * @throws AiError if the provider rejects the request
+   */
+  stream(
+    messages: AiMessage[],
+    model: string,
+    signal: AbortSignal,
+  ): Promise<AsyncGenerator<OpenRouterStreamChunk>>;
+};
+
+/**
+ * Builds a provider for an OpenAI-compatible chat completions API, such as
+ * OpenRouter or a local llama.cpp or Ollama server.
+ *
+ * @param baseUrl - API base URL, e.g. "http://localhost:11434/v1"
+ * @param apiKey - Bearer token, if the API needs one
+ * @returns The provider
+ */
+export function openAiCompatibleProvider(
+  baseUrl: string,
+  apiKey?: string,
+): AiProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  /** Posts a chat completion request, throwing on non-OK statuses. */
+  async function post(body: object, signal: AbortSignal): Promise<Response> {
+    const res = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        ...(apiKey ? { Authorization: "Bearer " + apiKey } : {}),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!res.ok) {
+      const bodyText = await res.text();
+      throw new HttpResponseError(res.status, res.statusText, bodyText);
+    }
+    return res;
+  }
+
+  return {
+    async complete(messages, model, signal) {
+      const res = (await post({ model, messages }, signal).then((res) =>
+        res.json(),
+      )) as OpenRouterResponse;
+
+      const content = res?.choices?.[0]?.message?.content;
+      if (!content) throw new EmptyResponseError(res);
+      return content;
+    },
+
+    async stream(messages, model, signal) {
+      const res = await post(
+        {
+          model,
+          messages,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        signal,
+      );
+      return readServerSentEvents(res);
+    },
+  };
+}
+
+/**
+ * Parses the SSE "data: {json}" objects of a streaming response as they
+ * arrive, until "data: [DONE]".
+ */
+async function* readServerSentEvents(
+  res: Response,
+): AsyncGenerator<OpenRouterStreamChunk> {
+  const body = res.body;
+  if (!body) return;
+
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      while (true) {
+        const lineEnd = buffer.indexOf("\n");
+        if (lineEnd === -1) break;
+        const line = buffer.slice(0, lineEnd).trim();
+        buffer = buffer.slice(lineEnd + 1);
+
+        if (!line.startsWith("data: ")) continue;
+        const data = line.slice(6);
+        if (data === "[DONE]") return;
+
+        try {
+          const parsed = JSON.parse(data) as OpenRouterStreamChunk;
+          yield parsed;
+        } catch {
+          // Ignore non-JSON payloads
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Builds a provider answering without any LLM, for tests and local runs.
+ *
+ * Answers are deterministic: a list of the first links (markdown or html)
+ * of the last message, under a hash of the messages. The model "error"
+ * always fails, to try fallbacks.
+ *
+ * @returns The provider
+ */
+export function fakeProvider(): AiProvider {
+  function answer(messages: AiMessage[], model: string): string {
+    if (model === "error") {
+      throw new AiError("Fake provider asked to fail");
+    }
+    const hash = crypto
+      .createHash("sha256")
+      .update(JSON.stringify(messages))
+      .digest("hex")
+      .slice(0, 12);
+    const content = messages[messages.length - 1]?.content ?? "";
+    const links = [
+      ...content.matchAll(
+        /\[([^\]]+)\]\((https?:[^)\s]+)\)|<a href="(https?:[^"]+)">([^<]+)<\/a>/g,
+      ),
+    ]
+      .slice(0, 5)
+      .map((m) => `<li><a href="${m[2] ?? m[3]}">${m[1] ?? m[4]}</a></li>`);
+    return `<p>Fake ${model} answer ${hash}</p>\n<ul>\n${links.join("\n")}\n</ul>`;
+  }
+
+  return {
+    async complete(messages, model) {
+      return answer(messages, model);
+    },
+
+    async stream(messages, model) {
+      const content = answer(messages, model);
+      return (async function* () {
+        yield {
+          id: "fake",
+          object: "chat.completion.chunk",
+          model,
+          choices: [{ index: 0, delta: { role: "assistant", content } }],
+        };
+        yield {
+          id: "fake",
+          object: "chat.completion.chunk",
+          model,
+          choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
+        };
+      })();
+    },
+  };
+}
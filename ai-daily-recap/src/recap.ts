@@ -1,92 +1,158 @@
-import Parser from "rss-parser";
-import { askAi, AiModels } from "./ai";
+import { askAi } from "./ai";
+import { pollFeed } from "./archive";
 import { ArticleReference, DailyRecap } from "./types";
-import { storeRecap } from "./storage";
+import {
+  getArchivedArticles,
+  getBundleFeeds,
+  getFeedSettings,
+  storeRecap,
+} from "./storage";
+import { articleSource, groupStories, Story } from "./stories";
+import { applyTopicRules, hasTopicRules } from "./topics";
+import { dayRange } from "./timezone";
 
 /**
- * Formats a Date object into YYYY-MM-DD string format.
- * Used for consistent date representation across the application.
+ * Returns the archived articles of a feed published on a given day.
+ * Reads from the archive filled by the poller (see archive.ts) rather than
+ * the live feed, which may have dropped the day's first articles already.
  *
- * @param date - The date to format
- * @returns String in YYYY-MM-DD format (e.g., "2025-11-14")
+ * For a bundle, returns the articles of all its feeds.
+ *
+ * @param feedUrl - The RSS feed URL, or the bundle identifier
+ * @param date - The day, in YYYY-MM-DD format
+ * @param timeZone - IANA timezone the day starts and ends in
+ * @returns Array of ArticleReference objects for the specified date, oldest first
  */
-export function formatDate(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+export function getArticlesForDay(
+  feedUrl: string,
+  date: string,
+  timeZone: string,
+): ArticleReference[] {
+  const bundleFeeds = getBundleFeeds(feedUrl);
+  const { start, end } = dayRange(date, timeZone);
+  return getArchivedArticles(
+    bundleFeeds.length > 0 ? bundleFeeds : [feedUrl],
+    start,
+    end,
+  );
 }
 
 /**
- * Filters RSS feed items by a specific date and converts them to ArticleReference objects.
+ * Picks at most `max` articles spread evenly over the list, so a busy
+ * day's recap covers the whole day rather than its first hours.
  *
- * Algorithm:
- * 1. Convert target date to YYYY-MM-DD string
- * 2. Filter items where pubDate matches the target date (same calendar day)
- * 3. Map filtered items to ArticleReference objects
- * 4. Handle missing fields with sensible defaults
+ * @param articles - Articles ordered by publication date
+ * @param max - Maximum number of articles to keep
+ * @returns The picked articles, in their original order
+ */
+export function sampleEvenly(
+  articles: ArticleReference[],
+  max: number,
+): ArticleReference[] {
+  if (articles.length <= max) return articles;
+  const step = articles.length / max;
+  return Array.from({ length: max }, (_, i) => articles[Math.floor(i * step)]);
+}
+
+/**
+ * Picks at most `max` articles, highest scores first (see topics.ts), and
+ * spread evenly over the day within the lowest score picked.
+ * Without scores, this is sampleEvenly().
  *
- * @param items - Array of RSS items from rss-parser
- * @param targetDate - The date to filter by (only items from this calendar day)
- * @returns Array of ArticleReference objects for the specified date
+ * @param articles - Articles ordered by publication date
+ * @param max - Maximum number of articles to keep
+ * @param scores - Priority of each article, 0 if missing
+ * @returns The picked articles, in their original order
  */
-export function filterArticlesByDate(
-  items: Parser.Item[],
-  targetDate: Date,
+export function pickArticles(
+  articles: ArticleReference[],
+  max: number,
+  scores: Map<ArticleReference, number> = new Map(),
 ): ArticleReference[] {
-  const targetDateStr = formatDate(targetDate);
-  const filtered = items
-    .filter((item) => {
-      if (!item.pubDate) return false;
-      const itemDate = new Date(item.pubDate);
-      const itemDateStr = formatDate(itemDate);
-      return itemDateStr === targetDateStr;
-    })
-    .map((item) => ({
-      title: item.title || "Untitled",
-      link: item.link || "",
-      description: item.contentSnippet || item.content || "",
-      pubDate: item.pubDate || new Date().toISOString(),
-    }));
-
-  return filtered;
+  if (articles.length <= max) return articles;
+
+  const scoreOf = (article: ArticleReference) => scores.get(article) ?? 0;
+  const levels = [...new Set(articles.map(scoreOf))].sort((a, b) => b - a);
+  const picked = new Set<ArticleReference>();
+  for (const level of levels) {
+    const group = articles.filter((article) => scoreOf(article) === level);
+    for (const article of sampleEvenly(group, max - picked.size)) {
+      picked.add(article);
+    }
+    if (picked.size >= max) break;
+  }
+  return articles.filter((article) => picked.has(article));
+}
+
+/**
+ * Builds the system prompt of a news curator: its task, then its numbered
+ * rules, followed by the rules every recap and digest follows.
+ *
+ * @param task - What the curator is asked to do
+ * @param output - Name of what it writes, e.g. "recap"
+ * @param rules - Rules specific to the task, most important first
+ * @param excludeSport - Whether to leave sport out, for the feeds whose
+ *   topic rules don't say otherwise (see hasTopicRules)
+ * @returns The system prompt
+ */
+export function curatorPrompt(
+  task: string,
+  output: string,
+  rules: string[],
+  excludeSport: boolean,
+): string {
+  const allRules = [
+    ...rules,
+    "Use html formatting",
+    "Be concise but informative",
+    ...(excludeSport ? ["Never include stories about sports"] : []),
+    "Write in a professional but engaging tone",
+    `Always respect the sources' language (${output} in french if the sources are in french, english if the sources are in english.)`,
+  ];
+  return `You are an intelligent news curator. ${task}
+
+Rules:
+${allRules.map((rule, index) => `${index + 1}. ${rule}`).join("\n")}`;
 }
 
 /**
  * Generates an AI-powered recap for a collection of articles from a specific date.
  *
  * Algorithm:
- * 1. Limit articles to first 50 to avoid huge LLM contexts
+ * 1. Limit articles to 50, boosted ones first and spread over the day, to
+ *    avoid huge LLM contexts
  * 2. Build system message with instructions for the AI curator
  * 3. Format articles as numbered list with titles, links, and descriptions
  * 4. Send messages to LLM via askAi()
  * 5. Return the generated html recap
  *
  * @param articles - Array of ArticleReference objects to summarize
- * @param targetDate - The date being recapped
+ * @param scores - Priority of each article given by the topic rules
+ * @param excludeSport - Whether to ask to leave sport out
  * @returns Promise resolving to html-formatted recap text
  */
 export async function generateRecapForArticles(
   articles: ArticleReference[],
+  scores?: Map<ArticleReference, number>,
+  excludeSport = true,
 ): Promise<string> {
-  // Limit to first 50 articles to avoid huge contexts
-  const limitedArticles = articles.slice(0, 50);
+  // Limit to 50 articles to avoid huge contexts
+  const limitedArticles = pickArticles(articles, 50, scores);
 
   // Build system message with instructions
   const systemMessage = {
     role: "system" as const,
-    content: `You are an intelligent news curator. Your job is to analyze a day's worth of articles and create a concise, engaging summary highlighting the most important and interesting stories. 
-
-Rules:
-1. Focus on 3-5 major stories maximum
-2. Include clickable links to original articles
-3. Use html formatting
-4. Be concise but informative
-5. Prioritize stories that are newsworthy, impactful, or particularly interesting
-6. Never include stories about sports
-7. Ignore minor or repetitive stories
-8. Write in a professional but engaging tone
-9. Always respect the source's language (recap in french if the source is in french, english if the source is in english.)`,
+    content: curatorPrompt(
+      "Your job is to analyze a day's worth of articles and create a concise, engaging summary highlighting the most important and interesting stories.",
+      "recap",
+      [
+        "Focus on 3-5 major stories maximum",
+        "Include clickable links to original articles",
+        "Prioritize stories that are newsworthy, impactful, or particularly interesting",
+        "Ignore minor or repetitive stories",
+      ],
+      excludeSport,
+    ),
   };
 
   // Format articles text
@@ -104,58 +170,174 @@ Rules:
 
   // Call AI to generate recap
   const html = await askAi([systemMessage, userMessage], {
-    model: AiModels.GPT4_1,
+    task: "recap",
   });
 
   return html;
 }
 
 /**
- * Generates historical recaps for the past N days for a given feed URL.
+ * Picks at most `max` stories: boosted ones first (highest score of their
+ * articles), then the ones reported by the most outlets, which are usually
+ * the most important ones.
+ *
+ * @param stories - Stories ordered by their first article
+ * @param max - Maximum number of stories to keep
+ * @param scores - Priority of each article, 0 if missing
+ * @returns The picked stories, in their original order
+ */
+function pickMainStories(
+  stories: Story[],
+  max: number,
+  scores: Map<ArticleReference, number> = new Map(),
+): Story[] {
+  if (stories.length <= max) return stories;
+  const scoreOf = (story: Story) =>
+    Math.max(...story.articles.map((article) => scores.get(article) ?? 0));
+  const picked = new Set(
+    [...stories]
+      .sort(
+        (a, b) =>
+          scoreOf(b) - scoreOf(a) || b.articles.length - a.articles.length,
+      )
+      .slice(0, max),
+  );
+  return stories.filter((story) => picked.has(story));
+}
+
+/**
+ * Generates an AI-powered recap for the articles of several feeds (a
+ * bundle), citing every source of each story.
  *
  * Algorithm:
- * 1. Fetch RSS feed using RSSParser
- * 2. For each of the past N days (going backwards from today):
- *    - Calculate target date
- *    - Filter articles for that specific day
- *    - If articles found, generate recap and store it
- * 3. Process sequentially to avoid rate limiting
+ * 1. Group the articles reporting the same story (see stories.ts)
+ * 2. Limit to 50 stories, preferring boosted ones, then the ones reported
+ *    by the most outlets
+ * 3. Format stories as numbered list, each with the titles and links of all
+ *    its articles and their outlet
+ * 4. Send messages to LLM via askAi(), asking to cite all sources
+ * 5. Return the generated html recap
  *
- * Note: Processes days sequentially (not in parallel) to avoid overwhelming the LLM API.
+ * @param articles - Articles of all the bundle's feeds, oldest first
+ * @param scores - Priority of each article given by the topic rules
+ * @param excludeSport - Whether to ask to leave sport out
+ * @returns Promise resolving to html-formatted recap text
+ */
+export async function generateRecapForBundleArticles(
+  articles: ArticleReference[],
+  scores?: Map<ArticleReference, number>,
+  excludeSport = true,
+): Promise<string> {
+  const stories = pickMainStories(groupStories(articles), 50, scores);
+
+  // Build system message with instructions
+  const systemMessage = {
+    role: "system" as const,
+    content: curatorPrompt(
+      "Your job is to analyze a day's worth of articles from several news outlets and create a concise, engaging summary highlighting the most important and interesting stories. Articles reporting the same story have already been grouped together.",
+      "recap",
+      [
+        "Focus on 3-5 major stories maximum",
+        "Present each story once, and cite every source reporting it, as clickable links named after the outlet",
+        "Stories reported by several outlets are usually the most important ones",
+        "Ignore minor or repetitive stories",
+      ],
+      excludeSport,
+    ),
+  };
+
+  // Format stories text
+  const storiesText = stories
+    .map((story, index) => {
+      const sources = story.articles
+        .map(
+          (article) =>
+            `   - ${articleSource(article)}: [${article.title}](${article.link})`,
+        )
+        .join("\n");
+      return `${index + 1}. Sources:\n${sources}\n   Description: ${story.articles[0].description}`;
+    })
+    .join("\n\n");
+
+  // Build user message
+  const userMessage = {
+    role: "user" as const,
+    content: `Here are today's stories:\n\n${storiesText}\n\nGenerate a daily recap.`,
+  };
+
+  // Call AI to generate recap
+  return askAi([systemMessage, userMessage], {
+    task: "recap",
+  });
+}
+
+/**
+ * Generates the recap of a feed or bundle for a given day, in its timezone.
+ * Polls the feed (or the bundle's feeds) one last time, reads the day's
+ * articles from the archive, applies the feed's topic rules (see
+ * topics.ts), and generates recap if articles remain.
+ *
+ * A failed poll is only fatal when the archive has no article of the day:
+ * the day may just not have been fetched yet, so the job is retried rather
+ * than done without a recap.
  *
- * @param feedUrl - URL of the RSS feed to process
- * @param days - Number of past days to generate recaps for (default: 5)
- * @returns Promise that resolves when all historical recaps are generated
+ * @param feedUrl - The RSS feed URL, or the bundle identifier, to process
+ * @param date - The day to recap, in YYYY-MM-DD format
+ * @returns Promise that resolves when recap is generated and stored; rejects
+ *          if the recap could not be generated, so the job is retried
  */
-export async function generateHistoricalRecaps(
+export async function generateRecapForFeed(
   feedUrl: string,
-  days: number = 5,
+  date: string,
 ): Promise<void> {
-  const parser = new Parser();
-  const feed = await parser.parseURL(feedUrl);
-
-  const today = new Date();
-
-  // Process sequentially to avoid rate limiting
-  for (let i = 1; i < days + 1; i++) {
-    const targetDate = new Date(today);
-    targetDate.setDate(today.getDate() - i);
-    const articlesForDay = filterArticlesByDate(feed.items, targetDate);
-
-    if (articlesForDay.length > 0) {
-      try {
-        const html = await generateRecapForArticles(articlesForDay);
-
-        const recap: DailyRecap = {
-          date: formatDate(targetDate),
-          html: html,
-          articles: articlesForDay,
-        };
-
-        storeRecap(feedUrl, recap);
-      } catch (error) {
-        // Continue with next day even if this one failed
-      }
-    }
+  const settings = getFeedSettings(feedUrl);
+  if (!settings) return;
+
+  // Catching the articles published since the last poll
+  const bundleFeeds = getBundleFeeds(feedUrl);
+  const pollErrors: string[] = [];
+  for (const url of bundleFeeds.length > 0 ? bundleFeeds : [feedUrl]) {
+    await pollFeed(url).catch((err) => {
+      console.error(`Failed to poll ${url}, using the archive as is:`, err);
+      pollErrors.push(`${url}: ${err}`);
+    });
+  }
+
+  const archived = getArticlesForDay(feedUrl, date, settings.timezone);
+  if (archived.length === 0 && pollErrors.length > 0) {
+    throw new Error(
+      `No archived articles for ${date}, and polling failed (${pollErrors.join(", ")})`,
+    );
+  }
+
+  // Archived articles of the day, without the excluded topics
+  const { articles, scores, excludedCount } = applyTopicRules(
+    feedUrl,
+    archived,
+  );
+
+  if (articles.length > 0) {
+    // Topic rules set for the feed decide about sport instead
+    const excludeSport = !hasTopicRules(feedUrl);
+    const html =
+      bundleFeeds.length > 0
+        ? await generateRecapForBundleArticles(articles, scores, excludeSport)
+        : await generateRecapForArticles(articles, scores, excludeSport);
+
+    const recap: DailyRecap = {
+      date: date,
+      html: html,
+      articles: articles,
+      excludedCount: excludedCount,
+    };
+
+    storeRecap(feedUrl, recap);
+    console.log(
+      `Generated recap for ${feedUrl} on ${date}: ${articles.length} articles, ${excludedCount} excluded`,
+    );
+  } else {
+    console.log(
+      `No articles found for ${feedUrl} on ${date} (${excludedCount} excluded)`,
+    );
   }
 }
@@ -1,5 +1,10 @@
 import crypto from "crypto";
-import { AiMessage, AiModels, askAiStream, HttpResponseError } from "../ai";
+import {
+  AiMessage,
+  AllProvidersFailedError,
+  askAiStream,
+  HttpResponseError,
+} from "../ai";
 import { getCachedDig, setCachedDig } from "../digCache";
 
 /** Type for Bun route handlers. */
@@ -10,7 +15,8 @@ export type RouteHandler = (req: Request) => Promise<Response> | Response;
  * - GET /dig                -> serve static HTML with security headers
  * - GET /public/dig.css     -> serve CSS with proper content type and nosniff
  * - GET /public/dig.js      -> serve JS with proper content type and nosniff
- * - POST/OPTIONS /dig/stream-> SSE proxy with caching, retry-once, and CORS
+ * - POST/OPTIONS /dig/stream-> SSE proxy with caching, retry-once, and CORS,
+ *   streaming from the models of the "dig" task (see ai.ts)
  */
 export function digRoutes(): Record<string, RouteHandler> {
   /** CORS headers for the streaming endpoint. Kept internal to this module. */
@@ -142,7 +148,7 @@ export function digRoutes(): Record<string, RouteHandler> {
                 id: "cached",
                 object: "chat.completion.chunk",
                 created: Math.floor(Date.now() / 1000),
-                model: AiModels.PERPLEXITY,
+                model: "cache",
                 choices: [
                   {
                     index: 0,
@@ -166,14 +172,14 @@ export function digRoutes(): Record<string, RouteHandler> {
           };
           const latency = Date.now() - started;
           console.log(
-            `${new Date().toISOString()} model=${AiModels.PERPLEXITY} article=${articleHash} latency_ms=${latency} usage=cached`,
+            `${new Date().toISOString()} model=cache article=${articleHash} latency_ms=${latency} usage=cached`,
           );
           return new Response(stream, { headers });
         }
 
         // Pre-stream: attempt to obtain first chunk to detect 5xx
         async function getGeneratorFirstChunk() {
-          const gen = askAiStream(messages, { model: AiModels.PERPLEXITY });
+          const gen = askAiStream(messages, { task: "dig" });
           try {
             const first = await gen.next();
             return { gen, first } as const;
@@ -194,9 +200,13 @@ export function digRoutes(): Record<string, RouteHandler> {
           firstChunk = first;
         } catch (err) {
           if (
-            err instanceof HttpResponseError &&
-            err.status >= 500 &&
-            err.status < 600
+            err instanceof AllProvidersFailedError &&
+            err.failures.some(
+              ({ error }) =>
+                error instanceof HttpResponseError &&
+                error.status >= 500 &&
+                error.status < 600,
+            )
           ) {
             // retry once
             try {
@@ -231,6 +241,7 @@ export function digRoutes(): Record<string, RouteHandler> {
 
         const encoder = new TextEncoder();
         let assistantAccum = "";
+        let model = firstChunk?.value?.model ?? "unknown";
         let usage:
           | {
               prompt_tokens: number;
@@ -264,6 +275,7 @@ export function digRoutes(): Record<string, RouteHandler> {
                   | undefined;
                 if (delta) assistantAccum += delta;
                 if (chunk?.usage) usage = chunk.usage;
+                if (chunk?.model) model = chunk.model;
                 controller.enqueue(
                   encoder.encode("data: " + JSON.stringify(chunk) + "\n"),
                 );
@@ -283,7 +295,7 @@ export function digRoutes(): Record<string, RouteHandler> {
                 ? `pt=${usage.prompt_tokens} ct=${usage.completion_tokens} tt=${usage.total_tokens}`
                 : "";
               console.log(
-                `${new Date().toISOString()} model=${AiModels.PERPLEXITY} article=${articleHash} latency_ms=${latency} ${usageStr}`,
+                `${new Date().toISOString()} model=${model} article=${articleHash} latency_ms=${latency} ${usageStr}`,
               );
             }
           },
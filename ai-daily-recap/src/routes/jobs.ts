@@ -0,0 +1,56 @@
+import { JobStatus, listJobs, retryJob } from "../jobs";
+import { runScheduler } from "../scheduler";
+import { RouteHandler } from "./dig";
+
+const JOB_STATUSES: JobStatus[] = ["pending", "running", "done", "failed"];
+
+/**
+ * Build routes to inspect the job queue.
+ * - GET /jobs        -> JSON list of jobs, filtered by `status` and `feed`
+ * - POST /jobs/retry -> put the failed job `id` back in the queue
+ */
+export function jobRoutes(): Record<string, RouteHandler> {
+  const jsonHeaders = {
+    "Content-Type": "application/json; charset=utf-8",
+  } as const;
+
+  return {
+    /** List jobs, most recently updated first (failed ones with their error) */
+    "/jobs": (req) => {
+      const url = new URL(req.url);
+      const status = url.searchParams.get("status");
+      if (status !== null && !JOB_STATUSES.includes(status as JobStatus)) {
+        return new Response(
+          `Invalid status: ${status} (expected one of ${JOB_STATUSES.join(", ")})`,
+          { status: 400 },
+        );
+      }
+
+      const jobs = listJobs({
+        status: (status as JobStatus | null) ?? undefined,
+        feedUrl: url.searchParams.get("feed") ?? undefined,
+      });
+      return new Response(JSON.stringify(jobs, null, 2), {
+        headers: jsonHeaders,
+      });
+    },
+
+    /** Retry a failed job right away */
+    "/jobs/retry": (req) => {
+      if (req.method !== "POST") {
+        return new Response("Method Not Allowed", {
+          status: 405,
+          headers: { Allow: "POST" },
+        });
+      }
+
+      const id = Number(new URL(req.url).searchParams.get("id"));
+      if (!Number.isInteger(id) || !retryJob(id)) {
+        return new Response("No failed job with this id", { status: 404 });
+      }
+
+      runScheduler();
+      return new Response(null, { status: 204 });
+    },
+  };
+}
@@ -0,0 +1,198 @@
+import { ARCHIVE_RETENTION_DAYS } from "./archive";
+import { generateDigestForFeed } from "./digest";
+import {
+  claimNextJob,
+  completeJob,
+  enqueueJob,
+  failJob,
+  hasUnfinishedJobs,
+  Job,
+  JobType,
+} from "./jobs";
+import { generateRecapForFeed } from "./recap";
+import { getRecapDates, listTrackedFeeds } from "./storage";
+import {
+  addDays,
+  formatDateInZone,
+  periodEnd,
+  periodStart,
+  zonedTimeToDate,
+} from "./timezone";
+import { DigestPeriod, TrackedFeed } from "./types";
+
+/** Days recapped before the day a feed is first requested. */
+const HISTORICAL_DAYS = 5;
+
+/** Runs a job; rejects to have it retried. */
+type JobHandler = (job: Job) => Promise<void>;
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  daily_recap: (job) => generateRecapForFeed(job.feedUrl, job.date),
+  weekly_digest: (job) => generateDigestForFeed(job.feedUrl, "week", job.date),
+  monthly_digest: (job) =>
+    generateDigestForFeed(job.feedUrl, "month", job.date),
+};
+
+/** Job generating the digest of each kind of period. */
+const DIGEST_JOBS: Record<DigestPeriod, JobType> = {
+  week: "weekly_digest",
+  month: "monthly_digest",
+};
+
+/**
+ * Returns the last day of a feed whose recap is due: yesterday once the
+ * feed's recap hour has passed today, the day before otherwise.
+ *
+ * @param feed - The tracked feed
+ * @param now - Current time
+ * @returns Date in YYYY-MM-DD format, in the feed's timezone
+ */
+function lastDueDate(feed: TrackedFeed, now: Date): string {
+  const today = formatDateInZone(now, feed.timezone);
+  const recapTime = zonedTimeToDate(today, feed.recapHour, feed.timezone);
+  return addDays(today, recapTime <= now ? -1 : -2);
+}
+
+/**
+ * Returns the first day of a feed to recap: HISTORICAL_DAYS before the feed
+ * was first requested, but no further than ARCHIVE_RETENTION_DAYS, past
+ * which the archive no longer holds the articles.
+ *
+ * @param feed - The tracked feed
+ * @param now - Current time
+ * @returns Date in YYYY-MM-DD format, in the feed's timezone
+ */
+function firstRecapDate(feed: TrackedFeed, now: Date): string {
+  const today = formatDateInZone(now, feed.timezone);
+  const firstRequested = formatDateInZone(
+    new Date(feed.createdAt),
+    feed.timezone,
+  );
+  const retentionStart = addDays(today, -ARCHIVE_RETENTION_DAYS);
+  const historyStart = addDays(firstRequested, -HISTORICAL_DAYS);
+  return historyStart > retentionStart ? historyStart : retentionStart;
+}
+
+/**
+ * Enqueues a recap job for each due day of a feed without a recap.
+ *
+ * Days go back to firstRecapDate(). Days that already have a job (done,
+ * failed or pending) are skipped, so this both schedules the day that just
+ * ended and catches up on the days missed while the service was down.
+ *
+ * @param feed - The tracked feed
+ * @param now - Current time
+ * @returns Number of enqueued jobs
+ */
+function enqueueMissingRecaps(feed: TrackedFeed, now: Date): number {
+  const first = firstRecapDate(feed, now);
+  const recapDates = getRecapDates(feed.url);
+  let count = 0;
+  // Newest first, so the day that just ended is recapped before older ones
+  let date = lastDueDate(feed, now);
+  while (date >= first) {
+    if (!recapDates.has(date) && enqueueJob("daily_recap", feed.url, date)) {
+      count++;
+    }
+    date = addDays(date, -1);
+  }
+  return count;
+}
+
+/**
+ * Enqueues a digest job for each ended week and month of a feed that has
+ * none yet.
+ *
+ * A period has ended once the recap of its last day is due, e.g. on Monday
+ * at the feed's recap hour for the previous week. Its digest is only
+ * enqueued once the recap jobs of its days have all run, so it covers the
+ * whole period. Periods go back to the one containing firstRecapDate().
+ *
+ * @param feed - The tracked feed
+ * @param now - Current time
+ * @returns Number of enqueued jobs
+ */
+function enqueueMissingDigests(feed: TrackedFeed, now: Date): number {
+  const lastDue = lastDueDate(feed, now);
+  const first = firstRecapDate(feed, now);
+
+  let count = 0;
+  for (const period of ["week", "month"] as const) {
+    // Latest ended period first
+    let start = periodStart(lastDue, period);
+    if (periodEnd(start, period) > lastDue) {
+      start = periodStart(addDays(start, -1), period);
+    }
+
+    while (periodEnd(start, period) >= first) {
+      const end = periodEnd(start, period);
+      if (
+        !hasUnfinishedJobs("daily_recap", feed.url, start, end) &&
+        enqueueJob(DIGEST_JOBS[period], feed.url, start)
+      ) {
+        count++;
+      }
+      start = periodStart(addDays(start, -1), period);
+    }
+  }
+  return count;
+}
+
+/**
+ * Runs the due jobs one after the other, until none is left.
+ * Sequential to avoid rate limiting by the LLM API.
+ */
+async function runDueJobs(): Promise<void> {
+  for (let job = claimNextJob(); job; job = claimNextJob()) {
+    try {
+      await JOB_HANDLERS[job.type](job);
+      completeJob(job.id);
+    } catch (error) {
+      const status = failJob(job, error);
+      console.error(
+        `Job ${job.type} for ${job.feedUrl} on ${job.date} failed (attempt ${job.attempts}, now ${status}):`,
+        error,
+      );
+    }
+  }
+}
+
+let running = false;
+
+/**
+ * Enqueues the missing recaps and digests of all tracked feeds, then runs
+ * the due jobs.
+ * Skipped if the previous run is still going, so at most one job runs at a
+ * time in this process.
+ */
+export async function runScheduler(): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    const now = new Date();
+    for (const feed of listTrackedFeeds()) {
+      const recaps = enqueueMissingRecaps(feed, now);
+      if (recaps > 0) {
+        console.log(`Scheduled ${recaps} recaps for ${feed.url}`);
+      }
+      const digests = enqueueMissingDigests(feed, now);
+      if (digests > 0) {
+        console.log(`Scheduled ${digests} digests for ${feed.url}`);
+      }
+    }
+    await runDueJobs();
+  } catch (error) {
+    console.error("Scheduler run failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Starts running the scheduler every minute, beginning right away, which
+ * catches up on the recaps missed while the service was down.
+ */
+export function startScheduler(): void {
+  runScheduler();
+  setInterval(runScheduler, 60 * 1000);
+}
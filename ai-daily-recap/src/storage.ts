@@ -1,88 +1,618 @@
 import fs from "fs";
-import { Storage, DailyRecap } from "./types";
+import { db } from "./db";
+import {
+  ArticleReference,
+  DailyRecap,
+  Digest,
+  DigestPeriod,
+  FeedSettings,
+  TrackedFeed,
+} from "./types";
 
 /**
- * Path to the JSON storage file in the temporary directory.
- * File persists across requests but is ephemeral (resets on container restart).
+ * Path to the JSON storage file used before the database.
+ * Imported once at startup if present, then renamed with an `.imported`
+ * suffix so it is never imported twice.
  */
-const STORAGE_FILE = "/tmp/ai-daily-recap-storage.json";
+const LEGACY_STORAGE_FILE =
+  process.env.LEGACY_STORAGE_FILE || "/tmp/ai-daily-recap-storage.json";
 
 /**
- * Initializes the storage file with an empty structure if it doesn't exist.
- * Creates /tmp/ai-daily-recap-storage.json with { feeds: [] } structure.
- * Safe to call multiple times - won't overwrite existing file.
+ * Root structure of the legacy JSON storage file: recaps by feed URL.
+ * Files created by older versions may also hold an empty `feeds` array.
+ */
+type LegacyStorage = {
+  [feedUrl: string]: DailyRecap[];
+};
+
+/**
+ * Timezone of the feeds that don't set one.
+ * Stored as null in the database, so changing it applies to these feeds.
+ */
+const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || "UTC";
+
+/** Hour recaps are generated at for the feeds that don't set one. */
+const DEFAULT_RECAP_HOUR = Number(process.env.DEFAULT_RECAP_HOUR) || 0;
+
+type RecapRow = {
+  date: string;
+  html: string;
+  excluded_count: number;
+};
+
+type ArticleRow = {
+  date: string;
+  title: string;
+  link: string;
+  description: string;
+  pub_date: string;
+  /** JSON array of strings */
+  categories: string | null;
+};
+
+/**
+ * An article seen in a feed by the archive poller.
+ * `guid` is null for feeds whose items have none; the link identifies them.
+ */
+export type ArchivedArticle = ArticleReference & {
+  guid: string | null;
+};
+
+/**
+ * Prepares the storage at startup.
+ * The database itself is created and migrated when first imported (see
+ * db.ts); this imports the legacy JSON storage file if there is one.
+ * Safe to call multiple times.
  */
 export function initializeStorage(): void {
-  if (!fs.existsSync(STORAGE_FILE)) {
-    fs.writeFileSync(STORAGE_FILE, JSON.stringify({ feeds: [] }, null, 2));
+  if (!fs.existsSync(LEGACY_STORAGE_FILE)) return;
+
+  try {
+    const count = importLegacyStorage(LEGACY_STORAGE_FILE);
+    fs.renameSync(LEGACY_STORAGE_FILE, `${LEGACY_STORAGE_FILE}.imported`);
+    console.log(`Imported ${count} recaps from ${LEGACY_STORAGE_FILE}`);
+  } catch (error) {
+    console.error(`Failed to import ${LEGACY_STORAGE_FILE}:`, error);
   }
 }
 
 /**
- * Reads and parses the storage JSON file.
- * Returns the parsed Storage object, or a default empty structure on error.
- * 
- * @returns Storage object with all feeds and recaps
+ * Imports the recaps of a legacy JSON storage file.
+ *
+ * Algorithm:
+ * 1. Parse the file, skipping keys that don't hold a list of recaps
+ * 2. Skip recaps missing their date or html, and articles missing their
+ *    title or link, logging each skipped entry
+ * 3. Store all remaining recaps in a single transaction, so a database
+ *    failure imports nothing and the import can be retried on next startup
+ *
+ * Recaps already in the database are replaced by the imported ones.
+ *
+ * @param file - Path to the JSON file
+ * @returns Number of imported recaps
  */
-export function readStorage(): Storage {
-  try {
-    const data = fs.readFileSync(STORAGE_FILE, "utf-8");
-    const parsed = JSON.parse(data);
-    return parsed;
-  } catch (e) {
-    return { feeds: [] };
-  }
+export function importLegacyStorage(file: string): number {
+  const legacy: LegacyStorage = JSON.parse(fs.readFileSync(file, "utf-8"));
+
+  let count = 0;
+  db.transaction(() => {
+    for (const [feedUrl, recaps] of Object.entries(legacy)) {
+      if (!Array.isArray(recaps)) continue;
+      recaps.forEach((recap, index) => {
+        if (typeof recap?.date !== "string" || typeof recap.html !== "string") {
+          console.warn(
+            `Skipping recap #${index} of ${feedUrl} in ${file}: no date or html`,
+          );
+          return;
+        }
+        const articles = Array.isArray(recap.articles) ? recap.articles : [];
+        storeRecap(feedUrl, {
+          date: recap.date,
+          html: recap.html,
+          articles: articles.flatMap((article, position) => {
+            const valid = parseLegacyArticle(article);
+            if (!valid) {
+              console.warn(
+                `Skipping article #${position} of the ${recap.date} recap of ${feedUrl} in ${file}: no title or link`,
+              );
+            }
+            return valid ? [valid] : [];
+          }),
+        });
+        count++;
+      });
+    }
+  })();
+
+  return count;
+}
+
+/**
+ * Checks an article of a legacy recap, which needs at least a title and a
+ * link. Missing descriptions and dates are stored empty.
+ *
+ * @returns The article, or null if it can't be imported
+ */
+function parseLegacyArticle(article: unknown): ArticleReference | null {
+  const a = article as Partial<ArticleReference> | null;
+  if (typeof a?.title !== "string" || typeof a.link !== "string") return null;
+  return {
+    title: a.title,
+    link: a.link,
+    description: typeof a.description === "string" ? a.description : "",
+    pubDate: typeof a.pubDate === "string" ? a.pubDate : "",
+    categories: Array.isArray(a.categories)
+      ? a.categories.filter((c) => typeof c === "string")
+      : undefined,
+  };
+}
+
+/**
+ * Starts tracking a feed, so the daily job generates its recaps.
+ * A feed only archived so far, as a member of a bundle, starts being
+ * recapped as if it were new.
+ *
+ * @param feedUrl - The RSS feed URL to track
+ * @returns true if the feed was not tracked yet
+ */
+export function addFeed(feedUrl: string): boolean {
+  return (
+    db
+      .query(
+        `INSERT INTO feeds (url, created_at) VALUES (?, ?)
+         ON CONFLICT (url) DO UPDATE SET
+           recapped = 1,
+           created_at = excluded.created_at
+         WHERE recapped = 0`,
+      )
+      .run(feedUrl, Date.now()).changes > 0
+  );
+}
+
+/**
+ * Starts tracking a bundle, or updates its list of feeds.
+ * The bundle is recapped like a feed, from the articles of its feeds. Its
+ * feeds are archived, but not recapped unless requested on their own.
+ *
+ * @param bundleUrl - Identifier of the bundle (see bundles.ts)
+ * @param feedUrls - The RSS feed URLs the bundle merges
+ * @returns true if the bundle was not tracked yet
+ */
+export function addBundle(bundleUrl: string, feedUrls: string[]): boolean {
+  const now = Date.now();
+  let added = false;
+
+  db.transaction(() => {
+    added =
+      db
+        .query(
+          `INSERT OR IGNORE INTO feeds (url, created_at, kind)
+           VALUES (?, ?, 'bundle')`,
+        )
+        .run(bundleUrl, now).changes > 0;
+
+    const addMember = db.query(
+      `INSERT OR IGNORE INTO feeds (url, created_at, recapped)
+       VALUES (?, ?, 0)`,
+    );
+    const link = db.query(
+      "INSERT INTO bundle_feeds (bundle_url, feed_url) VALUES (?, ?)",
+    );
+    db.query("DELETE FROM bundle_feeds WHERE bundle_url = ?").run(bundleUrl);
+    for (const feedUrl of feedUrls) {
+      addMember.run(feedUrl, now);
+      link.run(bundleUrl, feedUrl);
+    }
+  })();
+
+  return added;
+}
+
+/**
+ * Lists the feeds a bundle merges.
+ *
+ * @param bundleUrl - Identifier of the bundle
+ * @returns Feed URLs, empty if this is not a bundle
+ */
+export function getBundleFeeds(bundleUrl: string): string[] {
+  return db
+    .query<{ feed_url: string }, [string]>(
+      "SELECT feed_url FROM bundle_feeds WHERE bundle_url = ? ORDER BY feed_url",
+    )
+    .all(bundleUrl)
+    .map((row) => row.feed_url);
 }
 
 /**
- * Writes the storage object to the JSON file with pretty-printing.
- * Uses 2-space indentation for human readability.
- * 
- * @param storage - The complete storage object to persist
+ * Lists the URLs of all RSS feeds to archive, oldest first: tracked feeds
+ * and the feeds of tracked bundles.
+ *
+ * @returns Feed URLs
  */
-export function writeStorage(storage: Storage): void {
-  fs.writeFileSync(STORAGE_FILE, JSON.stringify(storage, null, 2));
+export function listFeeds(): string[] {
+  return db
+    .query<{ url: string }, []>(
+      "SELECT url FROM feeds WHERE kind = 'feed' ORDER BY created_at",
+    )
+    .all()
+    .map((row) => row.url);
 }
 
 /**
- * Finds and returns feed recaps for a given feed URL.
- * Returns null if the feed is not found in storage.
- * 
+ * Lists all tracked feeds and bundles with their settings, oldest first.
+ * Unset settings get their defaults.
+ *
+ * @returns Tracked feeds
+ */
+export function listTrackedFeeds(): TrackedFeed[] {
+  return db
+    .query<
+      {
+        url: string;
+        created_at: number;
+        timezone: string | null;
+        recap_hour: number | null;
+      },
+      []
+    >(
+      `SELECT url, created_at, timezone, recap_hour FROM feeds
+       WHERE recapped = 1 ORDER BY created_at`,
+    )
+    .all()
+    .map((row) => ({
+      url: row.url,
+      createdAt: row.created_at,
+      timezone: row.timezone ?? DEFAULT_TIMEZONE,
+      recapHour: row.recap_hour ?? DEFAULT_RECAP_HOUR,
+    }));
+}
+
+/**
+ * Returns the settings of a tracked feed, with defaults for the unset ones.
+ *
+ * @param feedUrl - The RSS feed URL
+ * @returns The feed settings, null if the feed is not tracked
+ */
+export function getFeedSettings(feedUrl: string): FeedSettings | null {
+  const row = db
+    .query<{ timezone: string | null; recap_hour: number | null }, [string]>(
+      "SELECT timezone, recap_hour FROM feeds WHERE url = ?",
+    )
+    .get(feedUrl);
+  if (!row) return null;
+
+  return {
+    timezone: row.timezone ?? DEFAULT_TIMEZONE,
+    recapHour: row.recap_hour ?? DEFAULT_RECAP_HOUR,
+  };
+}
+
+/**
+ * Changes the settings of a tracked feed.
+ * Settings left undefined keep their current value.
+ *
+ * @param feedUrl - The RSS feed URL
+ * @param settings - The settings to change, already validated
+ */
+export function updateFeedSettings(
+  feedUrl: string,
+  settings: Partial<FeedSettings>,
+): void {
+  db.query(
+    `UPDATE feeds SET
+       timezone = coalesce(?, timezone),
+       recap_hour = coalesce(?, recap_hour)
+     WHERE url = ?`,
+  ).run(settings.timezone ?? null, settings.recapHour ?? null, feedUrl);
+}
+
+/**
+ * Returns all recaps of a feed, with their source articles.
+ * Returns null if the feed is not tracked (feeds only archived for a bundle
+ * are not).
+ *
  * @param feedUrl - The RSS feed URL to search for
- * @returns FeedRecaps object if found, null otherwise
+ * @returns Recaps ordered by date, null if the feed is unknown
  */
 export function getDailyRecaps(feedUrl: string): DailyRecap[] | null {
-  const storage = readStorage();
-  return storage[feedUrl] || null;
+  const feed = db
+    .query("SELECT 1 FROM feeds WHERE url = ? AND recapped = 1")
+    .get(feedUrl);
+  if (!feed) return null;
+
+  const recaps = db
+    .query<RecapRow, [string]>(
+      `SELECT date, html, excluded_count FROM recaps
+       WHERE feed_url = ? ORDER BY date`,
+    )
+    .all(feedUrl);
+
+  const articles = db
+    .query<ArticleRow, [string]>(
+      `SELECT ra.date, a.title, a.link, a.description, a.pub_date, a.categories
+       FROM recap_articles ra
+       JOIN articles a ON a.feed_url = ra.feed_url AND a.link = ra.link
+       WHERE ra.feed_url = ?
+       ORDER BY ra.date, ra.position`,
+    )
+    .all(feedUrl);
+
+  const articlesByDate = new Map<string, ArticleReference[]>();
+  for (const row of articles) {
+    const list = articlesByDate.get(row.date) ?? [];
+    list.push(toArticleReference(row));
+    articlesByDate.set(row.date, list);
+  }
+
+  return recaps.map((recap) => ({
+    date: recap.date,
+    html: recap.html,
+    articles: articlesByDate.get(recap.date) ?? [],
+    excludedCount: recap.excluded_count,
+  }));
+}
+
+/**
+ * Lists the dates a feed has a recap for, without loading the recaps.
+ *
+ * @param feedUrl - The RSS feed URL
+ * @returns Dates in YYYY-MM-DD format
+ */
+export function getRecapDates(feedUrl: string): Set<string> {
+  return new Set(
+    db
+      .query<{ date: string }, [string]>(
+        "SELECT date FROM recaps WHERE feed_url = ?",
+      )
+      .all(feedUrl)
+      .map((row) => row.date),
+  );
 }
 
 /**
  * Stores or updates a recap for a specific feed and date.
- * 
+ *
  * Algorithm:
- * 1. Read current storage
- * 2. Find feed by URL, create if doesn't exist
- * 3. Check if recap for this date already exists
- * 4. Update existing recap or append new one
- * 5. Write modified storage back to file
- * 
+ * 1. Track the feed if it isn't already
+ * 2. Insert the recap, or update the html of the existing one for this date
+ * 3. Upsert its source articles, and replace the list of articles it uses
+ *
+ * All steps run in one transaction, so concurrent requests and jobs never
+ * see or write a half-stored recap.
+ *
  * @param feedUrl - The RSS feed URL this recap belongs to
  * @param recap - The DailyRecap object to store
  */
 export function storeRecap(feedUrl: string, recap: DailyRecap): void {
-  const storage = readStorage();
-  let recaps = storage[feedUrl] || [];
-
-  // Check if recap for this date already exists
-  const existingIndex = recaps.findIndex((r) => r.date === recap.date);
-  if (existingIndex >= 0) {
-    // Recap already exists, update
-    recaps[existingIndex] = recap;
-  } else {
-    // No existing recap for date, add new
-    recaps.push(recap);
-  }
-  storage[feedUrl] = recaps;
+  const now = Date.now();
+
+  db.transaction(() => {
+    addFeed(feedUrl);
+
+    db.query(
+      `INSERT INTO recaps (feed_url, date, html, excluded_count, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (feed_url, date) DO UPDATE SET
+         html = excluded.html,
+         excluded_count = excluded.excluded_count,
+         updated_at = excluded.updated_at`,
+    ).run(feedUrl, recap.date, recap.html, recap.excludedCount ?? 0, now, now);
 
-  writeStorage(storage);
+    db.query("DELETE FROM recap_articles WHERE feed_url = ? AND date = ?").run(
+      feedUrl,
+      recap.date,
+    );
+
+    const upsertArticle = db.query(
+      `INSERT INTO articles (feed_url, link, title, description, pub_date, published_at, categories)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (feed_url, link) DO UPDATE SET
+         title = excluded.title,
+         description = excluded.description,
+         pub_date = excluded.pub_date,
+         published_at = excluded.published_at,
+         categories = coalesce(excluded.categories, categories)`,
+    );
+    const insertRecapArticle = db.query(
+      `INSERT INTO recap_articles (feed_url, date, position, link)
+       VALUES (?, ?, ?, ?)`,
+    );
+    recap.articles.forEach((article, position) => {
+      upsertArticle.run(
+        feedUrl,
+        article.link,
+        article.title,
+        article.description,
+        article.pubDate,
+        parsePubDate(article.pubDate),
+        stringifyCategories(article.categories),
+      );
+      insertRecapArticle.run(feedUrl, recap.date, position, article.link);
+    });
+  })();
+}
+
+/**
+ * Stores or replaces the digest of a feed for a period.
+ *
+ * @param feedUrl - The RSS feed URL this digest belongs to
+ * @param digest - The digest to store
+ */
+export function storeDigest(feedUrl: string, digest: Digest): void {
+  const now = Date.now();
+  db.query(
+    `INSERT INTO digests (feed_url, period, start_date, end_date, html, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT (feed_url, period, start_date) DO UPDATE SET
+       end_date = excluded.end_date,
+       html = excluded.html,
+       updated_at = excluded.updated_at`,
+  ).run(
+    feedUrl,
+    digest.period,
+    digest.startDate,
+    digest.endDate,
+    digest.html,
+    now,
+    now,
+  );
+}
+
+/**
+ * Returns the latest digests of a feed for a kind of period.
+ *
+ * @param feedUrl - The RSS feed URL
+ * @param period - "week" or "month"
+ * @param limit - Maximum number of digests returned
+ * @returns Digests, newest first
+ */
+export function getDigests(
+  feedUrl: string,
+  period: DigestPeriod,
+  limit: number,
+): Digest[] {
+  return db
+    .query<
+      { start_date: string; end_date: string; html: string },
+      [string, string, number]
+    >(
+      `SELECT start_date, end_date, html FROM digests
+       WHERE feed_url = ? AND period = ?
+       ORDER BY start_date DESC
+       LIMIT ?`,
+    )
+    .all(feedUrl, period, limit)
+    .map((row) => ({
+      period,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      html: row.html,
+    }));
+}
+
+/**
+ * Converts an article row to an ArticleReference.
+ */
+function toArticleReference(row: Omit<ArticleRow, "date">): ArticleReference {
+  return {
+    title: row.title,
+    link: row.link,
+    description: row.description,
+    pubDate: row.pub_date,
+    categories: row.categories ? JSON.parse(row.categories) : undefined,
+  };
+}
+
+/**
+ * Serializes the categories of an article for the `categories` column.
+ *
+ * @returns JSON array, null if the categories are unknown
+ */
+function stringifyCategories(categories?: string[]): string | null {
+  return categories ? JSON.stringify(categories) : null;
+}
+
+/**
+ * Converts a feed's publication date to a timestamp.
+ *
+ * @param pubDate - Date as found in the feed (RFC 822 or ISO 8601)
+ * @returns Timestamp in milliseconds, null if the date can't be parsed
+ */
+function parsePubDate(pubDate: string): number | null {
+  const time = Date.parse(pubDate);
+  return isNaN(time) ? null : time;
+}
+
+/**
+ * Adds the articles currently in a feed to its archive.
+ *
+ * Algorithm:
+ * 1. Skip articles without link or publication date, which can't be
+ *    recapped or assigned to a day
+ * 2. Skip articles already archived, by guid first (links sometimes
+ *    change, e.g. tracking parameters), then by link
+ * 3. Insert the others, all in one transaction
+ *
+ * @param feedUrl - The RSS feed URL the articles come from
+ * @param articles - Articles currently in the feed
+ * @returns Number of newly archived articles
+ */
+export function archiveArticles(
+  feedUrl: string,
+  articles: ArchivedArticle[],
+): number {
+  const existsByGuid = db.query(
+    "SELECT 1 FROM articles WHERE feed_url = ? AND guid = ?",
+  );
+  const insert = db.query(
+    `INSERT OR IGNORE INTO articles (feed_url, link, guid, title, description, pub_date, published_at, archived_at, categories)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+
+  let count = 0;
+  db.transaction(() => {
+    for (const article of articles) {
+      const publishedAt = parsePubDate(article.pubDate);
+      if (!article.link || publishedAt === null) continue;
+      if (article.guid && existsByGuid.get(feedUrl, article.guid)) continue;
+
+      count += insert.run(
+        feedUrl,
+        article.link,
+        article.guid,
+        article.title,
+        article.description,
+        article.pubDate,
+        publishedAt,
+        Date.now(),
+        stringifyCategories(article.categories),
+      ).changes;
+    }
+  })();
+  return count;
+}
+
+/**
+ * Returns the archived articles of some feeds published in a time range.
+ *
+ * @param feedUrls - The RSS feed URLs
+ * @param from - Start of the range (inclusive)
+ * @param to - End of the range (exclusive)
+ * @returns Articles ordered by publication date, oldest first
+ */
+export function getArchivedArticles(
+  feedUrls: string[],
+  from: Date,
+  to: Date,
+): ArticleReference[] {
+  const placeholders = feedUrls.map(() => "?").join(", ");
+  return db
+    .query<Omit<ArticleRow, "date">, (string | number)[]>(
+      `SELECT title, link, description, pub_date, categories FROM articles
+       WHERE feed_url IN (${placeholders})
+       AND published_at >= ? AND published_at < ?
+       ORDER BY published_at`,
+    )
+    .all(...feedUrls, from.getTime(), to.getTime())
+    .map(toArticleReference);
+}
+
+/**
+ * Deletes archived articles published before a date, except the ones
+ * referenced by a stored recap.
+ *
+ * @param before - Articles published before this date are deleted
+ * @returns Number of deleted articles
+ */
+export function pruneArchive(before: Date): number {
+  return db
+    .query(
+      `DELETE FROM articles
+       WHERE published_at < ?
+       AND NOT EXISTS (
+         SELECT 1 FROM recap_articles ra
+         WHERE ra.feed_url = articles.feed_url AND ra.link = articles.link
+       )`,
+    )
+    .run(before.getTime()).changes;
 }
@@ -0,0 +1,113 @@
+import { ArticleReference } from "./types";
+
+/**
+ * Minimum share of title words two articles must have in common to be
+ * considered the same story (Jaccard index of their significant words).
+ */
+const SAME_STORY_SIMILARITY = 0.5;
+
+/** Words too common to tell stories apart, in English and French. */
+const STOP_WORDS = new Set(
+  (
+    "the and for with from that this are was were has have had but not its " +
+    "into over after about will what when who how why new says said than " +
+    "les des une dans pour par sur avec est sont qui que aux ces son ses " +
+    "pas plus mais leur leurs cette apres selon face contre"
+  ).split(" "),
+);
+
+/**
+ * The same story, as reported by one or several articles.
+ */
+export type Story = {
+  /** Articles reporting the story, oldest first */
+  articles: ArticleReference[];
+};
+
+/**
+ * Returns the name of the outlet that published an article.
+ *
+ * @param article - The article
+ * @returns Hostname of the article's link without "www.", e.g. "lemonde.fr"
+ */
+export function articleSource(article: ArticleReference): string {
+  try {
+    return new URL(article.link).hostname.replace(/^www\./, "");
+  } catch {
+    return "Unknown";
+  }
+}
+
+/**
+ * Extracts the significant words of a title: lowercased, without accents,
+ * at least 3 characters long and not a stop word.
+ *
+ * @param title - Article title
+ * @returns Set of words
+ */
+function titleWords(title: string): Set<string> {
+  const words = title
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= 3 && !STOP_WORDS.has(word));
+  return new Set(words);
+}
+
+/**
+ * Computes the Jaccard index of two sets: shared items over all items.
+ *
+ * @returns Similarity between 0 (nothing shared) and 1 (same sets)
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Groups articles reporting the same story, typically published by
+ * different outlets of a bundle.
+ *
+ * Algorithm:
+ * 1. Extract the significant words of each title
+ * 2. Put each article in the first story holding an article with the same
+ *    link, or with a title similar enough (SAME_STORY_SIMILARITY)
+ * 3. Otherwise start a new story
+ *
+ * Comparing titles is quadratic, which is fine for a day of articles.
+ *
+ * @param articles - Articles ordered by publication date
+ * @returns Stories ordered by their first article, oldest first
+ */
+export function groupStories(articles: ArticleReference[]): Story[] {
+  const stories: { story: Story; links: Set<string>; words: Set<string>[] }[] =
+    [];
+
+  for (const article of articles) {
+    const words = titleWords(article.title);
+    const match = stories.find(
+      (s) =>
+        s.links.has(article.link) ||
+        s.words.some((w) => similarity(w, words) >= SAME_STORY_SIMILARITY),
+    );
+
+    if (!match) {
+      stories.push({
+        story: { articles: [article] },
+        links: new Set([article.link]),
+        words: [words],
+      });
+    } else if (!match.links.has(article.link)) {
+      match.story.articles.push(article);
+      match.links.add(article.link);
+      match.words.push(words);
+    }
+  }
+
+  return stories.map((s) => s.story);
+}
@@ -0,0 +1,203 @@
+import { DigestPeriod } from "./types";
+
+/**
+ * Date helpers working in an IANA timezone (e.g. "Europe/Paris") rather
+ * than the server's local time, so each feed's days start at its own
+ * midnight, daylight saving time included. Also holds the calendar
+ * arithmetic on YYYY-MM-DD dates (days, weeks and months).
+ */
+
+/** Wall-clock date and time in a timezone. */
+type ZonedParts = {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  /** 0-23 */
+  hour: number;
+  minute: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Returns a cached formatter for a timezone, creating it if needed. */
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks that a string is an IANA timezone known to the runtime.
+ *
+ * @param timeZone - Timezone name, e.g. "America/New_York"
+ * @returns true if dates can be computed in this timezone
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the wall-clock date and time of an instant in a timezone.
+ *
+ * @param date - The instant
+ * @param timeZone - IANA timezone
+ */
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+}
+
+/**
+ * Returns the offset of a timezone from UTC at a given instant.
+ *
+ * @returns Offset in milliseconds, positive east of UTC
+ */
+function timezoneOffset(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  // Ignoring seconds on both sides, offsets are whole minutes
+  return asUtc - (date.getTime() - (date.getTime() % 60_000));
+}
+
+/**
+ * Converts a wall-clock time in a timezone to an instant.
+ *
+ * Algorithm:
+ * 1. Read the wall-clock time as if it were UTC
+ * 2. Shift it by the timezone's offsets a day before and a day after, which
+ *    differ around a DST transition
+ * 3. Keep the earliest shifted instant that really shows this wall-clock
+ *    time in the timezone
+ * 4. If none does, the time falls in a DST gap: keep the latest instant
+ *
+ * Times skipped by a DST transition resolve to the instant right after the
+ * gap; times repeated by one resolve to their first occurrence.
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param hour - Hour of the day, 0-23
+ * @param timeZone - IANA timezone
+ * @returns The corresponding instant
+ */
+export function zonedTimeToDate(
+  date: string,
+  hour: number,
+  timeZone: string,
+): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour);
+  const msInDay = 24 * 60 * 60 * 1000;
+
+  const candidates = [
+    wallClock - timezoneOffset(new Date(wallClock - msInDay), timeZone),
+    wallClock - timezoneOffset(new Date(wallClock + msInDay), timeZone),
+  ];
+  const valid = candidates.filter(
+    (time) => time + timezoneOffset(new Date(time), timeZone) === wallClock,
+  );
+
+  return new Date(
+    valid.length > 0 ? Math.min(...valid) : Math.max(...candidates),
+  );
+}
+
+/**
+ * Formats an instant as the YYYY-MM-DD date it falls on in a timezone.
+ *
+ * @param date - The instant
+ * @param timeZone - IANA timezone
+ * @returns String in YYYY-MM-DD format (e.g., "2025-11-14")
+ */
+export function formatDateInZone(date: Date, timeZone: string): string {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Adds days to a YYYY-MM-DD date, as calendar days (not 24 hours).
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param days - Number of days to add, negative to go back
+ * @returns Date in YYYY-MM-DD format
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Returns the instants a calendar day starts and ends at in a timezone.
+ * Days are 23 or 25 hours long around DST transitions.
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param timeZone - IANA timezone
+ * @returns Start (inclusive) and end (exclusive) of the day
+ */
+export function dayRange(
+  date: string,
+  timeZone: string,
+): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToDate(date, 0, timeZone),
+    end: zonedTimeToDate(addDays(date, 1), 0, timeZone),
+  };
+}
+
+/**
+ * Returns the first day of the week (Monday) or month containing a date.
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param period - "week" or "month"
+ * @returns Date in YYYY-MM-DD format
+ */
+export function periodStart(date: string, period: DigestPeriod): string {
+  if (period === "month") return `${date.slice(0, 7)}-01`;
+
+  const [year, month, day] = date.split("-").map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  // getUTCDay() counts from Sunday (0), weeks start on Monday
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+/**
+ * Returns the last day of the week or month starting at a date.
+ *
+ * @param start - First day of the period, in YYYY-MM-DD format
+ * @param period - "week" or "month"
+ * @returns Date in YYYY-MM-DD format
+ */
+export function periodEnd(start: string, period: DigestPeriod): string {
+  if (period === "week") return addDays(start, 6);
+
+  const [year, month] = start.split("-").map(Number);
+  // Day 0 of the next month is the last day of this one
+  return new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+}
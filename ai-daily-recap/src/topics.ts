@@ -0,0 +1,207 @@
+import { readJsonConfig } from "./config";
+import { articleSource } from "./stories";
+import { ArticleReference } from "./types";
+
+/**
+ * Path to the JSON file holding the topic rules of each feed, keyed by feed
+ * URL or bundle identifier ("bundle:<name>"), "*" holding the rules of all
+ * feeds.
+ */
+const RULES_FILE = process.env.RULES_FILE || "/data/rules.json";
+
+/** What a rule does to the articles it matches. */
+type TopicAction = "include" | "exclude" | "boost";
+
+const TOPIC_ACTIONS: TopicAction[] = ["include", "exclude", "boost"];
+
+/**
+ * A topic rule, as written in RULES_FILE.
+ * An article matches when it meets all the conditions given.
+ */
+type TopicRule = {
+  /**
+   * - include: once a feed has include rules, only articles matching one
+   *   of them are recapped
+   * - exclude: matching articles are never recapped
+   * - boost: matching articles are kept first when the day has too many
+   */
+  action: TopicAction;
+  /** Text found in the title or description, case-insensitive */
+  keyword?: string;
+  /** Regular expression matching the title or description, case-insensitive */
+  pattern?: string;
+  /** RSS `category` tag of the article, case-insensitive */
+  category?: string;
+  /** Domain of the article's link, subdomains included */
+  domain?: string;
+  /** Priority added by a boost rule (default: 1) */
+  weight?: number;
+};
+
+type RulesConfig = {
+  [feedUrl: string]: TopicRule[];
+};
+
+/** A validated rule, ready to match articles. */
+type CompiledRule = {
+  action: TopicAction;
+  weight: number;
+  /** Conditions, all to be met */
+  conditions: ((article: ArticleReference) => boolean)[];
+};
+
+/**
+ * Articles of a day once topic rules are applied.
+ */
+export type FilteredArticles = {
+  /** Articles to recap, in their original order */
+  articles: ArticleReference[];
+  /** Priority of each kept article, 0 unless boosted */
+  scores: Map<ArticleReference, number>;
+  /** Number of articles left out by include or exclude rules */
+  excludedCount: number;
+};
+
+/**
+ * Returns the rule lists RULES_FILE sets for a feed: those of "*", then the
+ * feed's own.
+ */
+function readRuleLists(feedUrl: string): TopicRule[][] {
+  const config = readJsonConfig<RulesConfig>(RULES_FILE);
+  return [config["*"], config[feedUrl]].filter((list) => Array.isArray(list));
+}
+
+/**
+ * Checks whether RULES_FILE sets rules for a feed, its own or under "*",
+ * even an empty list. Prompts of the feeds without any keep sport out (see
+ * curatorPrompt), which rules set for a feed replace.
+ *
+ * @param feedUrl - The RSS feed URL, or the bundle identifier
+ * @returns true if the feed has topic rules
+ */
+export function hasTopicRules(feedUrl: string): boolean {
+  return readRuleLists(feedUrl).length > 0;
+}
+
+/**
+ * Reads the rules of a feed from RULES_FILE: the rules of "*", then the
+ * feed's own.
+ * Invalid rules (unknown action, bad regular expression, no condition) are
+ * skipped with an error.
+ *
+ * @param feedUrl - The RSS feed URL, or the bundle identifier
+ * @returns The feed's rules
+ */
+function readRules(feedUrl: string): CompiledRule[] {
+  const rules = readRuleLists(feedUrl).flat();
+  return rules.flatMap((rule) => {
+    try {
+      return [compileRule(rule)];
+    } catch (error) {
+      console.error(
+        `Skipping topic rule ${JSON.stringify(rule)}: ${(error as Error).message}`,
+      );
+      return [];
+    }
+  });
+}
+
+/**
+ * Validates a rule and turns its conditions into functions.
+ *
+ * @param rule - Rule as written in RULES_FILE
+ * @returns The compiled rule
+ * @throws Error if the rule is invalid
+ */
+function compileRule(rule: TopicRule): CompiledRule {
+  if (!TOPIC_ACTIONS.includes(rule?.action)) {
+    throw new Error(`action must be one of ${TOPIC_ACTIONS.join(", ")}`);
+  }
+
+  const conditions: CompiledRule["conditions"] = [];
+  if (rule.keyword) {
+    const keyword = rule.keyword.toLowerCase();
+    conditions.push((article) =>
+      `${article.title}\n${article.description}`
+        .toLowerCase()
+        .includes(keyword),
+    );
+  }
+  if (rule.pattern) {
+    const regex = new RegExp(rule.pattern, "i");
+    conditions.push(
+      (article) => regex.test(article.title) || regex.test(article.description),
+    );
+  }
+  if (rule.category) {
+    const category = rule.category.toLowerCase();
+    conditions.push(
+      (article) =>
+        article.categories?.some((c) => c.toLowerCase() === category) ?? false,
+    );
+  }
+  if (rule.domain) {
+    const domain = rule.domain.toLowerCase().replace(/^www\./, "");
+    conditions.push((article) => {
+      const source = articleSource(article);
+      return source === domain || source.endsWith(`.${domain}`);
+    });
+  }
+  if (conditions.length === 0) {
+    throw new Error("no condition (keyword, pattern, category or domain)");
+  }
+
+  return { action: rule.action, weight: Number(rule.weight) || 1, conditions };
+}
+
+/**
+ * Checks whether an article meets all the conditions of a rule.
+ */
+function matches(rule: CompiledRule, article: ArticleReference): boolean {
+  return rule.conditions.every((condition) => condition(article));
+}
+
+/**
+ * Applies the topic rules of a feed to the articles of a day, before they
+ * are cut down to the number an LLM prompt can hold.
+ *
+ * Algorithm:
+ * 1. Leave out articles matching an exclude rule
+ * 2. If there are include rules, leave out articles matching none of them
+ * 3. Score the others with the weights of the boost rules they match
+ *
+ * @param feedUrl - The RSS feed URL, or the bundle identifier
+ * @param articles - Articles of the day
+ * @returns The kept articles, their scores and the number left out
+ */
+export function applyTopicRules(
+  feedUrl: string,
+  articles: ArticleReference[],
+): FilteredArticles {
+  const rules = readRules(feedUrl);
+  const includes = rules.filter((rule) => rule.action === "include");
+  const excludes = rules.filter((rule) => rule.action === "exclude");
+  const boosts = rules.filter((rule) => rule.action === "boost");
+
+  const kept: ArticleReference[] = [];
+  const scores = new Map<ArticleReference, number>();
+  for (const article of articles) {
+    const included =
+      includes.length === 0 || includes.some((rule) => matches(rule, article));
+    if (!included || excludes.some((rule) => matches(rule, article))) continue;
+
+    kept.push(article);
+    scores.set(
+      article,
+      boosts
+        .filter((rule) => matches(rule, article))
+        .reduce((score, rule) => score + rule.weight, 0),
+    );
+  }
+
+  return {
+    articles: kept,
+    scores,
+    excludedCount: articles.length - kept.length,
+  };
+}
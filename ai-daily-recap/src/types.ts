@@ -11,6 +11,8 @@ export type ArticleReference = {
   description: string;
   /** ISO 8601 date string */
   pubDate: string;
+  /** RSS `category` tags, missing for articles recapped before they were kept */
+  categories?: string[];
 };
 
 /**
@@ -24,12 +26,42 @@ export type DailyRecap = {
   html: string;
   /** Source articles used to generate this recap */
   articles: ArticleReference[];
+  /** Number of articles of the day left out by the feed's topic rules */
+  excludedCount?: number;
 };
 
 /**
- * Root storage structure for the entire application.
- * Contains all tracked feeds and their associated recaps.
+ * When the days of a feed start and end, and when its recaps are generated.
  */
-export type Storage = {
-  [feedUrl: string]: DailyRecap[];
+export type FeedSettings = {
+  /** IANA timezone the feed's days are computed in (e.g. "Europe/Paris") */
+  timezone: string;
+  /** Hour of the day (0-23, in `timezone`) the previous day's recap is generated at */
+  recapHour: number;
+};
+
+/**
+ * A feed the service generates recaps for.
+ */
+export type TrackedFeed = FeedSettings & {
+  /** URL of the RSS feed */
+  url: string;
+  /** Timestamp the feed was first requested at */
+  createdAt: number;
+};
+
+/** Period covered by a digest: a week (Monday to Sunday) or a month. */
+export type DigestPeriod = "week" | "month";
+
+/**
+ * AI-generated digest of the daily recaps of a week or a month.
+ */
+export type Digest = {
+  period: DigestPeriod;
+  /** First day of the period, in YYYY-MM-DD format */
+  startDate: string;
+  /** Last day of the period, in YYYY-MM-DD format */
+  endDate: string;
+  /** LLM-generated digest in html format */
+  html: string;
 };
@@ -0,0 +1,173 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  spyOn,
+  test,
+} from "bun:test";
+import type { AiMessage, OpenRouterStreamChunk } from "../src/ai";
+
+// Read when ai.ts is loaded, so it is imported once it is set
+process.env.AI_TIMEOUT_SECONDS = "1";
+const {
+  AiTimeoutError,
+  AllProvidersFailedError,
+  EmptyResponseError,
+  HttpResponseError,
+  askAi,
+  askAiStream,
+} = await import("../src/ai");
+
+const MESSAGES: AiMessage[] = [
+  { role: "system", content: "Recap the articles" },
+  { role: "user", content: "1. [Launch](https://news.example.com/launch)" },
+];
+
+/**
+ * OpenAI-compatible API answering with the status in its base URL, e.g.
+ * `/503/chat/completions`, a completion for `/200`, or never for `/hang`.
+ */
+let api: ReturnType<typeof Bun.serve>;
+
+beforeAll(() => {
+  api = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const route = new URL(req.url).pathname.split("/")[1];
+      if (route === "hang") return new Promise<Response>(() => {});
+      if (route === "empty") {
+        return Response.json({ choices: [{ message: { content: "" } }] });
+      }
+      if (route !== "200") {
+        return new Response("Provider error", { status: Number(route) });
+      }
+      return Response.json({
+        choices: [{ message: { content: "<p>Local answer</p>" } }],
+      });
+    },
+  });
+});
+
+afterAll(() => {
+  api.stop(true);
+});
+
+beforeEach(() => {
+  // Each failure is logged before the next provider is tried
+  spyOn(console, "error").mockImplementation(() => {});
+});
+
+/** Sets the models of the recap and dig tasks, and the API they reach. */
+function useModels(models: string, route = "200"): void {
+  process.env.AI_MODELS_RECAP = models;
+  process.env.AI_MODELS_DIG = models;
+  process.env.OPENAI_BASE_URL = `${api.url}${route}`;
+}
+
+/** Reads a stream to the end, returning its text. */
+async function readStream(
+  stream: AsyncGenerator<OpenRouterStreamChunk>,
+): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) {
+    text += chunk.choices?.[0]?.delta?.content ?? "";
+  }
+  return text;
+}
+
+/** Returns the error a promise rejects with. */
+async function rejection(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected the promise to reject");
+}
+
+describe("askAi", () => {
+  test("answers with the first provider that succeeds", async () => {
+    useModels("fake:error,fake:backup");
+    const answer = await askAi(MESSAGES, { task: "recap" });
+    expect(answer).toStartWith("<p>Fake backup answer");
+    expect(answer).toContain(
+      '<li><a href="https://news.example.com/launch">Launch</a></li>',
+    );
+  });
+
+  test("reports every failure once all providers failed", async () => {
+    useModels("fake:error,openai:local", "empty");
+    const error = await rejection(askAi(MESSAGES, { task: "recap" }));
+    expect(error).toBeInstanceOf(AllProvidersFailedError);
+
+    const { failures } = error as InstanceType<typeof AllProvidersFailedError>;
+    expect(failures.map(({ provider, model }) => [provider, model])).toEqual([
+      ["fake", "error"],
+      ["openai", "local"],
+    ]);
+    expect(failures[1].error).toBeInstanceOf(EmptyResponseError);
+  });
+
+  test.each([503, 400])(
+    "falls back after an HTTP %d, keeping its status",
+    async (status) => {
+      useModels("openai:local,fake:backup", String(status));
+      expect(await askAi(MESSAGES, { task: "recap" })).toStartWith(
+        "<p>Fake backup answer",
+      );
+
+      useModels("openai:local", String(status));
+      const error = await rejection(askAi(MESSAGES, { task: "recap" }));
+      const [failure] = (error as InstanceType<typeof AllProvidersFailedError>)
+        .failures;
+      expect(failure.error).toBeInstanceOf(HttpResponseError);
+      expect(
+        (failure.error as InstanceType<typeof HttpResponseError>).status,
+      ).toBe(status);
+    },
+  );
+
+  test("falls back when a provider doesn't answer in time", async () => {
+    useModels("openai:local,fake:backup", "hang");
+    expect(await askAi(MESSAGES, { task: "recap" })).toStartWith(
+      "<p>Fake backup answer",
+    );
+    expect(console.error).toHaveBeenCalledWith(
+      "AI provider openai:local failed:",
+      String(new AiTimeoutError(1000)),
+    );
+  });
+});
+
+describe("askAiStream", () => {
+  test("streams from the first provider that accepts the request", async () => {
+    useModels("fake:error,fake:backup");
+    const text = await readStream(askAiStream(MESSAGES, { task: "dig" }));
+    expect(text).toStartWith("<p>Fake backup answer");
+  });
+
+  test.each([503, 404])(
+    "falls back after an HTTP %d, before streaming anything",
+    async (status) => {
+      useModels("openai:local,fake:backup", String(status));
+      const text = await readStream(askAiStream(MESSAGES, { task: "dig" }));
+      expect(text).toStartWith("<p>Fake backup answer");
+    },
+  );
+
+  test("throws once all providers failed to start", async () => {
+    useModels("openai:local,fake:error", "500");
+    const error = await rejection(
+      readStream(askAiStream(MESSAGES, { task: "dig" })),
+    );
+    expect(error).toBeInstanceOf(AllProvidersFailedError);
+
+    const { failures } = error as InstanceType<typeof AllProvidersFailedError>;
+    expect(failures).toHaveLength(2);
+    expect(
+      (failures[0].error as InstanceType<typeof HttpResponseError>).status,
+    ).toBe(500);
+  });
+});
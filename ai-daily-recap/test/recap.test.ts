@@ -0,0 +1,88 @@
+import { afterAll, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Read when the modules are loaded, so they are imported once they are set
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "recap-test-"));
+process.env.DATABASE_FILE = path.join(dataDir, "recaps.sqlite");
+process.env.RULES_FILE = path.join(dataDir, "rules.json");
+process.env.AI_MODELS_RECAP = "fake:recap";
+const { curatorPrompt, generateRecapForFeed } = await import("../src/recap");
+const { hasTopicRules } = await import("../src/topics");
+const { addFeed, archiveArticles, getDailyRecaps } =
+  await import("../src/storage");
+
+/** URL of a feed nothing answers on: a port just released. */
+function unreachableFeed(): string {
+  const server = Bun.serve({ port: 0, fetch: () => new Response() });
+  const url = `${server.url}rss`;
+  server.stop(true);
+  return url;
+}
+
+afterAll(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  spyOn(console, "error").mockImplementation(() => {});
+  spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("generateRecapForFeed", () => {
+  test("fails when the feed can't be polled and nothing is archived", async () => {
+    const feedUrl = unreachableFeed();
+    addFeed(feedUrl);
+
+    await expect(generateRecapForFeed(feedUrl, "2025-03-10")).rejects.toThrow(
+      "No archived articles for 2025-03-10, and polling failed",
+    );
+    expect(getDailyRecaps(feedUrl)).toEqual([]);
+  });
+
+  test("recaps the archive when the feed can't be polled", async () => {
+    const feedUrl = unreachableFeed();
+    addFeed(feedUrl);
+    archiveArticles(feedUrl, [
+      {
+        guid: "launch",
+        title: "Rocket launch delayed",
+        link: "https://news.example.com/launch",
+        description: "Weather postpones the launch",
+        pubDate: "Mon, 10 Mar 2025 09:00:00 GMT",
+      },
+    ]);
+
+    await generateRecapForFeed(feedUrl, "2025-03-10");
+    const recaps = getDailyRecaps(feedUrl);
+    expect(recaps?.map((recap) => recap.date)).toEqual(["2025-03-10"]);
+    expect(recaps?.[0].html).toStartWith("<p>Fake recap answer");
+  });
+});
+
+describe("sport in curator prompts", () => {
+  const SPORT_RULE = "Never include stories about sports";
+  const feedUrl = "https://news.example.com/rss";
+  const prompt = () =>
+    curatorPrompt("Recap the day.", "recap", [], !hasTopicRules(feedUrl));
+
+  test("is left out of feeds without topic rules", () => {
+    fs.rmSync(process.env.RULES_FILE!, { force: true });
+    expect(prompt()).toContain(SPORT_RULE);
+
+    fs.writeFileSync(
+      process.env.RULES_FILE!,
+      JSON.stringify({ "https://other.example.com/rss": [] }),
+    );
+    expect(prompt()).toContain(SPORT_RULE);
+  });
+
+  test("is up to the topic rules of feeds having some", () => {
+    for (const rules of [{ "*": [] }, { [feedUrl]: [] }]) {
+      fs.writeFileSync(process.env.RULES_FILE!, JSON.stringify(rules));
+      expect(prompt()).not.toContain(SPORT_RULE);
+    }
+    fs.rmSync(process.env.RULES_FILE!);
+  });
+});
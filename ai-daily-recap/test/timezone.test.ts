@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import { dayRange, formatDateInZone, zonedTimeToDate } from "../src/timezone";
+
+const HOUR = 60 * 60 * 1000;
+
+/** dayRange as ISO strings, with the length of the day in hours. */
+function isoRange(date: string, timeZone: string) {
+  const { start, end } = dayRange(date, timeZone);
+  return {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    hours: (end.getTime() - start.getTime()) / HOUR,
+  };
+}
+
+describe("dayRange", () => {
+  test("spans 24 hours on ordinary days", () => {
+    expect(isoRange("2025-01-15", "Europe/Paris")).toEqual({
+      start: "2025-01-14T23:00:00.000Z",
+      end: "2025-01-15T23:00:00.000Z",
+      hours: 24,
+    });
+  });
+
+  test.each([
+    // Clocks skip an hour: 23-hour days
+    [
+      "Europe/Paris",
+      "2025-03-30",
+      "2025-03-29T23:00:00.000Z",
+      "2025-03-30T22:00:00.000Z",
+      23,
+    ],
+    [
+      "America/New_York",
+      "2025-03-09",
+      "2025-03-09T05:00:00.000Z",
+      "2025-03-10T04:00:00.000Z",
+      23,
+    ],
+    // Clocks repeat an hour: 25-hour days
+    [
+      "Europe/Paris",
+      "2025-10-26",
+      "2025-10-25T22:00:00.000Z",
+      "2025-10-26T23:00:00.000Z",
+      25,
+    ],
+    [
+      "America/New_York",
+      "2025-11-02",
+      "2025-11-02T04:00:00.000Z",
+      "2025-11-03T05:00:00.000Z",
+      25,
+    ],
+  ])(
+    "follows the DST change in %s on %s",
+    (timeZone, date, start, end, hours) => {
+      expect(isoRange(date, timeZone)).toEqual({ start, end, hours });
+    },
+  );
+
+  test("ends where the next day starts", () => {
+    for (const timeZone of ["Europe/Paris", "America/New_York"]) {
+      for (const date of ["2025-03-09", "2025-03-30", "2025-11-01"]) {
+        const next = new Date(Date.parse(`${date}T12:00:00Z`) + 24 * HOUR)
+          .toISOString()
+          .slice(0, 10);
+        expect(dayRange(date, timeZone).end).toEqual(
+          dayRange(next, timeZone).start,
+        );
+      }
+    }
+  });
+});
+
+describe("zonedTimeToDate", () => {
+  test.each([
+    // 02:00 doesn't exist: the instant right after the gap (03:00 summer time)
+    ["Europe/Paris", "2025-03-30", 2, "2025-03-30T01:00:00.000Z"],
+    ["America/New_York", "2025-03-09", 2, "2025-03-09T07:00:00.000Z"],
+  ])(
+    "moves hours skipped in %s on %s past the gap",
+    (timeZone, date, hour, iso) => {
+      expect(zonedTimeToDate(date, hour, timeZone).toISOString()).toBe(iso);
+    },
+  );
+
+  test.each([
+    // The hour happens twice: its first occurrence, in summer time
+    ["Europe/Paris", "2025-10-26", 2, "2025-10-26T00:00:00.000Z"],
+    ["America/New_York", "2025-11-02", 1, "2025-11-02T05:00:00.000Z"],
+  ])(
+    "picks the first of hours repeated in %s on %s",
+    (timeZone, date, hour, iso) => {
+      expect(zonedTimeToDate(date, hour, timeZone).toISOString()).toBe(iso);
+    },
+  );
+
+  test("keeps the offset of the day around transitions", () => {
+    // Before and after the Paris spring gap
+    expect(zonedTimeToDate("2025-03-30", 1, "Europe/Paris").toISOString()).toBe(
+      "2025-03-30T00:00:00.000Z",
+    );
+    expect(zonedTimeToDate("2025-03-30", 6, "Europe/Paris").toISOString()).toBe(
+      "2025-03-30T04:00:00.000Z",
+    );
+    // After the New York autumn overlap
+    expect(
+      zonedTimeToDate("2025-11-02", 6, "America/New_York").toISOString(),
+    ).toBe("2025-11-02T11:00:00.000Z");
+  });
+});
+
+describe("formatDateInZone", () => {
+  test("dates instants in the timezone, not in UTC", () => {
+    const instant = new Date("2025-11-02T03:30:00.000Z");
+    expect(formatDateInZone(instant, "UTC")).toBe("2025-11-02");
+    expect(formatDateInZone(instant, "America/New_York")).toBe("2025-11-01");
+  });
+});
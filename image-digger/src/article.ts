@@ -0,0 +1,56 @@
+import { parse } from "node-html-parser";
+import { CachedItem, Snapshot } from "./cache";
+import { escapeHtml } from "./snapshot";
+
+/** What `/article` shows about an item. */
+export type ArticlePage = {
+  item: CachedItem;
+  /** HTML of the image, or of the gallery */
+  images: string;
+  /** Whether `images` is a gallery, which needs room to scroll */
+  gallery: boolean;
+  snapshot: Snapshot | null;
+  /** Whether to show why the image was chosen */
+  debug: boolean;
+};
+
+/**
+ * Renders the `/article` page of an item: its images with the snapshot of
+ * the article and a link to the original when there is one, its
+ * description otherwise. Everything coming from the source is escaped,
+ * except the snapshot which is sanitized when taken.
+ */
+export function renderArticlePage(page: ArticlePage): string {
+  const { item, images, gallery, snapshot, debug } = page;
+
+  const debugInfo = debug
+    ? `<pre>${escapeHtml(item.imageUrl)}\nscore ${Math.round(item.score ?? 0)}: ${escapeHtml(item.scoreReason ?? "unknown")}</pre>`
+    : "";
+
+  const body = snapshot
+    ? `<div style="max-width: 760px; margin: 0 auto; padding: 16px; font-family: sans-serif; line-height: 1.6;">
+            <h1>${escapeHtml(item.title)}</h1>
+            ${images}
+            <p><a href="${escapeHtml(snapshot.link)}">Original article</a></p>
+            ${snapshot.html}
+            ${debugInfo}
+          </div>`
+    : `<div style="display: flex; flex-direction: column; align-items: center; justify-content: center; ${gallery ? "min-height" : "height"}: 100vh; width: 100vw;">
+            ${images}
+            <p>${escapeHtml(parse(item.description ?? "").textContent)}</p>
+            ${debugInfo}
+          </div>`;
+
+  return `
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <title>${escapeHtml(item.title)}</title>
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          </head>
+          <body>
+          ${body}
+          </body>
+        </html>
+      `;
+}
@@ -0,0 +1,439 @@
+import { Database } from "bun:sqlite";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Path of the SQLite cache. Defaults to `/data`, which is meant to be a
+ * mounted volume so the cache survives restarts.
+ */
+const CACHE_DB = process.env.CACHE_DB || "/data/image-digger.sqlite";
+
+/** How long processed items are kept, in milliseconds. */
+const CACHE_TTL_MS =
+  (Number(process.env.CACHE_TTL_DAYS) || 30) * 24 * 60 * 60 * 1000;
+
+/** An item of a source feed, processed by the digger. */
+export type CachedItem = {
+  /** URL of the source feed, with its selectors (see feedCacheKey) */
+  feed: string;
+  guid: string;
+  imageUrl: string;
+  title: string;
+  description: string | null;
+  /** Score of the chosen image, see scoring.ts */
+  score: number | null;
+  /** Why the image was chosen, for debugging */
+  scoreReason: string | null;
+  /** Perceptual hash of the image, see hash.ts */
+  imageHash: string | null;
+  /** Timestamp (ms) of when the item was processed */
+  createdAt: number;
+};
+
+/** Dimensions of a remote image, as found by the prober. */
+export type ImageSize = {
+  width: number;
+  height: number;
+  /** Format detected by image-size, e.g. `jpg` */
+  type: string | null;
+  /** Size of the whole file in bytes, when the server told it */
+  fileSize: number | null;
+};
+
+/** An image of an item's gallery, in the order of the article. */
+export type GalleryImage = {
+  url: string;
+  width: number;
+  height: number;
+};
+
+/** Offline copy of an article's text, shown by `/article`. */
+export type Snapshot = {
+  /** URL of the original article */
+  link: string;
+  /** Sanitized HTML, see snapshot.ts */
+  html: string;
+};
+
+/** An image downloaded to the local image store. */
+export type StoredImage = {
+  /** Original URL of the image */
+  url: string;
+  /** Path of the local copy */
+  path: string;
+  contentType: string;
+};
+
+/**
+ * Schema migrations, applied in order. `PRAGMA user_version` holds the
+ * number of migrations already applied, so each one runs exactly once.
+ */
+const MIGRATIONS: string[] = [
+  `CREATE TABLE items (
+    feed TEXT NOT NULL,
+    guid TEXT NOT NULL,
+    image_url TEXT NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (feed, guid)
+  );
+  CREATE INDEX items_guid ON items (guid);
+  CREATE INDEX items_created_at ON items (created_at);`,
+  `CREATE TABLE image_sizes (
+    url TEXT PRIMARY KEY,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    type TEXT,
+    file_size INTEGER,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX image_sizes_created_at ON image_sizes (created_at);`,
+  `CREATE TABLE stored_images (
+    url TEXT PRIMARY KEY,
+    path TEXT NOT NULL,
+    content_type TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX stored_images_created_at ON stored_images (created_at);`,
+  `ALTER TABLE items ADD COLUMN score REAL;
+  ALTER TABLE items ADD COLUMN score_reason TEXT;
+  CREATE TABLE site_images (
+    site TEXT NOT NULL,
+    image_url TEXT NOT NULL,
+    article TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (site, image_url, article)
+  );
+  CREATE INDEX site_images_site_article ON site_images (site, article);
+  CREATE INDEX site_images_created_at ON site_images (created_at);`,
+  `CREATE TABLE item_images (
+    feed TEXT NOT NULL,
+    guid TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    image_url TEXT NOT NULL,
+    width INTEGER NOT NULL,
+    height INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (feed, guid, position)
+  );
+  CREATE INDEX item_images_created_at ON item_images (created_at);`,
+  `CREATE TABLE snapshots (
+    feed TEXT NOT NULL,
+    guid TEXT NOT NULL,
+    link TEXT NOT NULL,
+    html TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (feed, guid)
+  );
+  CREATE INDEX snapshots_created_at ON snapshots (created_at);`,
+  `ALTER TABLE items ADD COLUMN image_hash TEXT;`,
+];
+
+fs.mkdirSync(path.dirname(CACHE_DB), { recursive: true });
+const db = new Database(CACHE_DB, { create: true });
+db.exec("PRAGMA journal_mode = WAL;");
+migrate();
+
+/** Applies the migrations the database hasn't seen yet. */
+function migrate(): void {
+  const { user_version } = db
+    .query<{ user_version: number }, []>("PRAGMA user_version")
+    .get()!;
+
+  for (let version = user_version; version < MIGRATIONS.length; version++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[version]);
+      db.exec(`PRAGMA user_version = ${version + 1}`);
+    })();
+  }
+}
+
+type ItemRow = {
+  feed: string;
+  guid: string;
+  image_url: string;
+  title: string;
+  description: string | null;
+  score: number | null;
+  score_reason: string | null;
+  image_hash: string | null;
+  created_at: number;
+};
+
+function toItem(row: ItemRow): CachedItem {
+  return {
+    feed: row.feed,
+    guid: row.guid,
+    imageUrl: row.image_url,
+    title: row.title,
+    description: row.description,
+    score: row.score,
+    scoreReason: row.score_reason,
+    imageHash: row.image_hash,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Returns a non-expired item of a feed, or null if it wasn't processed yet.
+ */
+export function getCachedItem(feed: string, guid: string): CachedItem | null {
+  const row = db
+    .query<ItemRow, [string, string, number]>(
+      "SELECT * FROM items WHERE feed = ? AND guid = ? AND created_at > ?",
+    )
+    .get(feed, guid, Date.now() - CACHE_TTL_MS);
+  return row ? toItem(row) : null;
+}
+
+/**
+ * Returns the most recent non-expired item with this guid, whatever its
+ * feed. Only used for `/article` and `/image` links published before they
+ * carried the feed, since guids are only unique per feed.
+ */
+export function getCachedItemByGuid(guid: string): CachedItem | null {
+  const row = db
+    .query<ItemRow, [string, number]>(
+      "SELECT * FROM items WHERE guid = ? AND created_at > ? ORDER BY created_at DESC LIMIT 1",
+    )
+    .get(guid, Date.now() - CACHE_TTL_MS);
+  return row ? toItem(row) : null;
+}
+
+/**
+ * Returns the items of a feed processed since a date whose image was
+ * hashed, oldest first.
+ *
+ * @param feed - Cache key of the feed
+ * @param since - Timestamp (ms)
+ */
+export function getRecentHashedItems(
+  feed: string,
+  since: number,
+): CachedItem[] {
+  return db
+    .query<ItemRow, [string, number]>(
+      "SELECT * FROM items WHERE feed = ? AND created_at >= ? AND image_hash IS NOT NULL ORDER BY created_at, guid",
+    )
+    .all(feed, since)
+    .map(toItem);
+}
+
+/** Inserts or replaces a processed item. */
+export function setCachedItem(item: Omit<CachedItem, "createdAt">): void {
+  db.query(
+    `INSERT OR REPLACE INTO items (feed, guid, image_url, title, description, score, score_reason, image_hash, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    item.feed,
+    item.guid,
+    item.imageUrl,
+    item.title,
+    item.description,
+    item.score,
+    item.scoreReason,
+    item.imageHash,
+    Date.now(),
+  );
+}
+
+/**
+ * Returns the gallery of an item: every image that passed the scoring.
+ * Empty for items processed before galleries were recorded.
+ */
+export function getItemImages(feed: string, guid: string): GalleryImage[] {
+  return db
+    .query<GalleryImage, [string, string]>(
+      "SELECT image_url AS url, width, height FROM item_images WHERE feed = ? AND guid = ? ORDER BY position",
+    )
+    .all(feed, guid);
+}
+
+/** Replaces the gallery of an item. */
+export function setItemImages(
+  feed: string,
+  guid: string,
+  images: GalleryImage[],
+): void {
+  const insert = db.query(
+    `INSERT INTO item_images (feed, guid, position, image_url, width, height, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+  );
+  db.transaction(() => {
+    db.query("DELETE FROM item_images WHERE feed = ? AND guid = ?").run(
+      feed,
+      guid,
+    );
+    images.forEach((image, position) => {
+      insert.run(
+        feed,
+        guid,
+        position,
+        image.url,
+        image.width,
+        image.height,
+        Date.now(),
+      );
+    });
+  })();
+}
+
+/** Returns the snapshot of an item, or null if none was taken. */
+export function getSnapshot(feed: string, guid: string): Snapshot | null {
+  return db
+    .query<Snapshot, [string, string]>(
+      "SELECT link, html FROM snapshots WHERE feed = ? AND guid = ?",
+    )
+    .get(feed, guid);
+}
+
+/** Inserts or replaces the snapshot of an item. */
+export function setSnapshot(
+  feed: string,
+  guid: string,
+  snapshot: Snapshot,
+): void {
+  db.query(
+    `INSERT OR REPLACE INTO snapshots (feed, guid, link, html, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
+  ).run(feed, guid, snapshot.link, snapshot.html, Date.now());
+}
+
+/** Returns the cached dimensions of an image URL, or null if unknown. */
+export function getCachedImageSize(url: string): ImageSize | null {
+  const row = db
+    .query<
+      {
+        width: number;
+        height: number;
+        type: string | null;
+        file_size: number | null;
+      },
+      [string, number]
+    >(
+      "SELECT width, height, type, file_size FROM image_sizes WHERE url = ? AND created_at > ?",
+    )
+    .get(url, Date.now() - CACHE_TTL_MS);
+  if (!row) return null;
+  return {
+    width: row.width,
+    height: row.height,
+    type: row.type,
+    fileSize: row.file_size,
+  };
+}
+
+/** Inserts or replaces the dimensions of an image URL. */
+export function setCachedImageSize(url: string, size: ImageSize): void {
+  db.query(
+    `INSERT OR REPLACE INTO image_sizes (url, width, height, type, file_size, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+  ).run(url, size.width, size.height, size.type, size.fileSize, Date.now());
+}
+
+/**
+ * Records the images found on an article, to spot the ones a site puts on
+ * every page (logos, banners, ...).
+ *
+ * @param site - Hostname of the article
+ * @param article - URL of the article
+ * @param imageUrls - Candidate images found on the article
+ */
+export function recordSiteImages(
+  site: string,
+  article: string,
+  imageUrls: string[],
+): void {
+  const insert = db.query(
+    `INSERT OR REPLACE INTO site_images (site, image_url, article, created_at)
+     VALUES (?, ?, ?, ?)`,
+  );
+  db.transaction(() => {
+    for (const url of imageUrls) {
+      insert.run(site, url, article, Date.now());
+    }
+  })();
+}
+
+/**
+ * Returns, for each image, the share of the site's known articles it
+ * appears on (between 0 and 1).
+ *
+ * @param site - Hostname of the articles
+ * @param imageUrls - Images to look up
+ * @returns Share per image URL, with the number of known articles
+ */
+export function getSiteImageFrequencies(
+  site: string,
+  imageUrls: string[],
+): { articles: number; frequencies: Map<string, number> } {
+  const { articles } = db
+    .query<{ articles: number }, [string]>(
+      "SELECT COUNT(DISTINCT article) AS articles FROM site_images WHERE site = ?",
+    )
+    .get(site)!;
+
+  const count = db.query<{ n: number }, [string, string]>(
+    "SELECT COUNT(*) AS n FROM site_images WHERE site = ? AND image_url = ?",
+  );
+  const frequencies = new Map<string, number>();
+  for (const url of imageUrls) {
+    const { n } = count.get(site, url)!;
+    frequencies.set(url, articles > 0 ? n / articles : 0);
+  }
+  return { articles, frequencies };
+}
+
+/** Returns the local copy of an image URL, or null if not stored. */
+export function getStoredImage(url: string): StoredImage | null {
+  const row = db
+    .query<{ url: string; path: string; content_type: string }, [string]>(
+      "SELECT url, path, content_type FROM stored_images WHERE url = ?",
+    )
+    .get(url);
+  if (!row) return null;
+  return { url: row.url, path: row.path, contentType: row.content_type };
+}
+
+/** Records the local copy of an image URL. */
+export function setStoredImage(image: StoredImage): void {
+  db.query(
+    `INSERT OR REPLACE INTO stored_images (url, path, content_type, created_at)
+     VALUES (?, ?, ?, ?)`,
+  ).run(image.url, image.path, image.contentType, Date.now());
+}
+
+/**
+ * Deletes the rows older than the TTL, along with the local copies of
+ * expired images.
+ *
+ * @returns Number of deleted rows
+ */
+export function evictExpiredItems(): number {
+  const threshold = Date.now() - CACHE_TTL_MS;
+
+  const expiredImages = db
+    .query<{ path: string }, [number]>(
+      "SELECT path FROM stored_images WHERE created_at <= ?",
+    )
+    .all(threshold);
+  for (const image of expiredImages) {
+    // Each image has its own directory, holding its resized variants too
+    fs.rmSync(path.dirname(image.path), { recursive: true, force: true });
+  }
+
+  return (
+    db.query("DELETE FROM items WHERE created_at <= ?").run(threshold).changes +
+    db.query("DELETE FROM image_sizes WHERE created_at <= ?").run(threshold)
+      .changes +
+    db.query("DELETE FROM stored_images WHERE created_at <= ?").run(threshold)
+      .changes +
+    db.query("DELETE FROM site_images WHERE created_at <= ?").run(threshold)
+      .changes +
+    db.query("DELETE FROM item_images WHERE created_at <= ?").run(threshold)
+      .changes +
+    db.query("DELETE FROM snapshots WHERE created_at <= ?").run(threshold)
+      .changes
+  );
+}
@@ -0,0 +1,39 @@
+import { CachedItem, getRecentHashedItems } from "./cache";
+import { DUPLICATE_DISTANCE, hammingDistance } from "./hash";
+
+/** How far back images are compared, in milliseconds. */
+const DEDUPE_WINDOW_MS =
+  (Number(process.env.DEDUPE_DAYS) || 7) * 24 * 60 * 60 * 1000;
+
+/**
+ * Finds the items whose image is a near-duplicate of the image of an item
+ * of the same feed processed before them, within the last DEDUPE_DAYS.
+ * Items processed before hashes were recorded are never duplicates.
+ *
+ * @param feed - Cache key of the feed
+ * @param items - Items about to be emitted
+ * @returns For each duplicate guid, the first item showing the same image
+ */
+export function findDuplicates(
+  feed: string,
+  items: CachedItem[],
+): Map<string, CachedItem> {
+  // Oldest first, so each image is attributed to its first appearance
+  const recent = getRecentHashedItems(feed, Date.now() - DEDUPE_WINDOW_MS);
+  const duplicates = new Map<string, CachedItem>();
+
+  for (const item of items) {
+    const position = recent.findIndex((r) => r.guid === item.guid);
+    if (position === -1) continue;
+
+    const hash = recent[position].imageHash!;
+    const original = recent
+      .slice(0, position)
+      .find((r) => hammingDistance(r.imageHash!, hash) <= DUPLICATE_DISTANCE);
+    if (original) {
+      duplicates.set(item.guid, original);
+    }
+  }
+
+  return duplicates;
+}
@@ -0,0 +1,273 @@
+import { HTMLElement, parse } from "node-html-parser";
+import Parser from "rss-parser";
+import {
+  CachedItem,
+  getCachedItem,
+  getSiteImageFrequencies,
+  recordSiteImages,
+  setCachedItem,
+  getSnapshot,
+  setItemImages,
+  setSnapshot,
+} from "./cache";
+import { findImageCandidates } from "./discovery";
+import { perceptualHash } from "./hash";
+import { ItemMedia } from "./media";
+import { feedCacheKey, SelectorOptions } from "./options";
+import { probeImageSize } from "./probe";
+import { extractSnapshot } from "./snapshot";
+import { pickBestImage, scoreImage } from "./scoring";
+import { storeImage } from "./store";
+
+/** Time allowed to process a single item. */
+const ITEM_TIMEOUT_MS = (Number(process.env.ITEM_TIMEOUT_SECONDS) || 30) * 1000;
+
+/** Source feed item, with the media fields the parser is asked to keep. */
+export type SourceItem = Parser.Item & {
+  description?: string;
+  mediaContent?: {
+    $: { url?: string; type?: string; medium?: string; fileSize?: string };
+  }[];
+};
+
+/** Parser for source feeds, keeping `media:content` for the fallbacks. */
+export function createSourceParser(): Parser<{}, SourceItem> {
+  return new Parser({
+    customFields: {
+      item: [["media:content", "mediaContent", { keepArray: true }]],
+    },
+  });
+}
+
+/** Error explaining why no image could be found for an item. */
+export class DigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DigError";
+  }
+}
+
+/**
+ * Finds, scores and stores the image of a source item, unless it was
+ * already processed on a previous poll. The other images passing the
+ * scoring are recorded as the item's gallery.
+ *
+ * @param feed - URL of the source feed
+ * @param item - Item of the source feed
+ * @param selectors - Per-feed selectors, see {@link findImageCandidates}
+ * @param snapshot - Whether to keep an offline copy of the article's text,
+ *   taken on the next poll for items processed without one
+ * @param signal - Aborts the downloads of the item, which then fails
+ * @returns The processed item, and whether it came from the cache
+ * @throws DigError when the article can't be fetched or has no usable image
+ */
+export async function digItem(
+  feed: string,
+  item: SourceItem,
+  selectors: SelectorOptions = {},
+  snapshot = false,
+  signal?: AbortSignal,
+): Promise<{ item: CachedItem; cached: boolean }> {
+  if (!item.guid || !item.link) {
+    throw new DigError("Item has no guid or link");
+  }
+  const { guid, link } = item;
+
+  // Already processed on a previous poll, no need to download again
+  const cacheKey = feedCacheKey(feed, selectors);
+  const cached = getCachedItem(cacheKey, guid);
+  if (cached) {
+    if (snapshot && !getSnapshot(cacheKey, guid)) {
+      // The image is known already, a failure only delays the snapshot
+      await fetchArticle(link, signal)
+        .then((root) => saveSnapshot(cacheKey, guid, link, root, selectors))
+        .catch((e) => console.error(`Failed to snapshot ${link}:`, e));
+    }
+    return { item: cached, cached: true };
+  }
+
+  const root = await fetchArticle(link, signal);
+
+  const candidates = findImageCandidates(root, link, selectors);
+  if (candidates.length === 0) {
+    throw new DigError("No image found in the article");
+  }
+
+  // Probing the dimensions of all the images
+  const imgs = await Promise.all(
+    candidates.map(async (candidate) => ({
+      candidate,
+      size: await probeImageSize(candidate.url, signal),
+    })),
+  );
+  // Aborted probes look like unmeasurable images, don't score on them
+  signal?.throwIfAborted();
+
+  // Scoring them against what the site shows on every article
+  const site = new URL(link).hostname;
+  const { articles, frequencies } = getSiteImageFrequencies(
+    site,
+    candidates.map((c) => c.url),
+  );
+  recordSiteImages(
+    site,
+    link,
+    candidates.map((c) => c.url),
+  );
+
+  const scored = imgs.flatMap(({ candidate, size }) =>
+    size
+      ? [
+          scoreImage({
+            candidate,
+            size,
+            siteFrequency: frequencies.get(candidate.url) ?? 0,
+            siteArticles: articles,
+          }),
+        ]
+      : [],
+  );
+  const best = pickBestImage(scored);
+
+  if (!best) {
+    throw new DigError(
+      `No suitable image among ${candidates.length} candidates`,
+    );
+  }
+
+  // Keeping a local copy, so the image outlives the article
+  const stored = await storeImage(best.url, signal).catch((e) => {
+    signal?.throwIfAborted();
+    console.error(`Failed to store ${best.url}:`, e);
+    return null;
+  });
+  const imageHash = stored
+    ? await perceptualHash(stored.path).catch((e) => {
+        console.error(`Failed to hash ${best.url}:`, e);
+        return null;
+      })
+    : null;
+
+  // Every image passing the scoring makes the gallery, in page order
+  setItemImages(
+    cacheKey,
+    guid,
+    scored
+      .filter((image) => image.score > 0)
+      .map(({ url, width, height }) => ({ url, width, height })),
+  );
+
+  // Last, since it strips the page down to its text
+  if (snapshot) {
+    saveSnapshot(cacheKey, guid, link, root, selectors);
+  }
+
+  const processed = {
+    feed: cacheKey,
+    guid,
+    imageUrl: best.url,
+    title: item.title ?? "",
+    description: item.description ?? null,
+    score: best.score,
+    scoreReason: best.reason,
+    imageHash,
+  };
+  setCachedItem(processed);
+
+  return {
+    item: { ...processed, createdAt: Date.now() },
+    cached: false,
+  };
+}
+
+/**
+ * Downloads and parses an article.
+ *
+ * @throws DigError when the article can't be fetched
+ */
+async function fetchArticle(
+  link: string,
+  signal?: AbortSignal,
+): Promise<HTMLElement> {
+  const res = await fetch(link, { signal }).catch((e) => {
+    throw new DigError(`Failed to fetch article: ${e}`);
+  });
+  if (!res.ok) {
+    throw new DigError(`Failed to fetch article: HTTP ${res.status}`);
+  }
+  return parse(await res.text());
+}
+
+/** Extracts and stores the snapshot of an article, if it has any text. */
+function saveSnapshot(
+  cacheKey: string,
+  guid: string,
+  link: string,
+  root: HTMLElement,
+  selectors: SelectorOptions,
+): void {
+  const html = extractSnapshot(root, link, selectors);
+  if (html) {
+    setSnapshot(cacheKey, guid, { link, html });
+  }
+}
+
+/**
+ * Runs {@link digItem} with a time limit, aborting its downloads once the
+ * limit is reached.
+ *
+ * @throws DigError when the item takes longer than ITEM_TIMEOUT_MS
+ */
+export function digItemWithTimeout(
+  feed: string,
+  item: SourceItem,
+  selectors: SelectorOptions = {},
+  snapshot = false,
+): ReturnType<typeof digItem> {
+  const controller = new AbortController();
+  let timer: Timer;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new DigError(`Timed out after ${ITEM_TIMEOUT_MS}ms`));
+    }, ITEM_TIMEOUT_MS);
+  });
+  return Promise.race([
+    digItem(feed, item, selectors, snapshot, controller.signal),
+    timeout,
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Returns the image the source feed itself declares for an item, through
+ * its `enclosure` or `media:content`.
+ *
+ * @returns The image, with the type and size the feed declares, or null if
+ *   the item declares none
+ */
+export function sourceImage(item: SourceItem): ItemMedia | null {
+  const enclosure = item.enclosure;
+  if (
+    enclosure?.url &&
+    (!enclosure.type || enclosure.type.startsWith("image/"))
+  ) {
+    return {
+      url: enclosure.url,
+      type: enclosure.type,
+      // Attributes are parsed as strings
+      fileSize: Number(enclosure.length) || undefined,
+    };
+  }
+  const media = item.mediaContent?.find(
+    (m) =>
+      m.$.url && (m.$.medium === "image" || m.$.type?.startsWith("image/")),
+  );
+  if (media?.$.url) {
+    return {
+      url: media.$.url,
+      type: media.$.type,
+      fileSize: Number(media.$.fileSize) || undefined,
+    };
+  }
+  return null;
+}
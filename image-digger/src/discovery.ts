@@ -0,0 +1,234 @@
+import { HTMLElement } from "node-html-parser";
+import { SelectorOptions } from "./options";
+
+/** Image formats worth considering, by file extension. */
+const IMAGE_EXTENSIONS = ["jpg", "jpeg", "png", "webp", "avif", "gif"];
+
+/** Attributes holding the real image URL on lazy-loaded `<img>` tags. */
+const LAZY_SRC_ATTRIBUTES = [
+  "data-src",
+  "data-original",
+  "data-lazy-src",
+  "data-url",
+];
+
+/** Attributes holding a srcset, lazy-loaded ones included. */
+const SRCSET_ATTRIBUTES = ["srcset", "data-srcset", "data-lazy-srcset"];
+
+/** Meta tags declaring the main image of a page. */
+const META_IMAGE_SELECTORS = [
+  'meta[property="og:image"]',
+  'meta[property="og:image:secure_url"]',
+  'meta[name="twitter:image"]',
+  'meta[name="twitter:image:src"]',
+  'meta[property="twitter:image"]',
+];
+
+/** Elements wrapping the main content of an article page. */
+const CONTENT_ROOT_SELECTOR =
+  'article, main, [role="main"], [itemprop="articleBody"]';
+
+/** An image an article may use as its main image. */
+export type ImageCandidate = {
+  /** Absolute URL of the image */
+  url: string;
+  /** Where the image was declared */
+  source: "meta" | "picture" | "img";
+  /**
+   * Whether the image sits in the main content of the page. Always true on
+   * pages without any content root, since we can't tell.
+   */
+  inContent: boolean;
+};
+
+/**
+ * Splits a `srcset` attribute into its candidates, as browsers do: a URL
+ * runs up to the next whitespace, keeping its inner commas (as in CDN
+ * paths like `w_640,h_480`) but not its trailing ones, and its descriptor
+ * up to the next comma, followed by whitespace or not.
+ *
+ * @param srcset - Value of a srcset attribute
+ * @returns URL and descriptor (e.g. `640w`) of each candidate
+ */
+function splitSrcset(srcset: string): { url: string; descriptor?: string }[] {
+  const candidates: { url: string; descriptor?: string }[] = [];
+  const urlPattern = /[\s,]*(\S+)/y;
+
+  let match;
+  while ((match = urlPattern.exec(srcset))) {
+    const url = match[1].replace(/,+$/, "");
+    if (url !== match[1]) {
+      // Commas right after the URL end a candidate without descriptor
+      candidates.push({ url });
+      continue;
+    }
+
+    const end = srcset.indexOf(",", urlPattern.lastIndex);
+    const descriptor = srcset
+      .slice(urlPattern.lastIndex, end === -1 ? undefined : end)
+      .trim()
+      .split(/\s+/)[0];
+    candidates.push({ url, descriptor: descriptor || undefined });
+    urlPattern.lastIndex = end === -1 ? srcset.length : end + 1;
+  }
+
+  return candidates;
+}
+
+/**
+ * Picks the largest candidate of a `srcset` attribute.
+ * Width descriptors (`640w`) are compared first, then density ones (`2x`);
+ * a candidate without descriptor counts as `1x`.
+ *
+ * @param srcset - Value of a srcset attribute
+ * @returns URL of the largest candidate, or null if the srcset is empty
+ */
+export function pickLargestFromSrcset(srcset: string): string | null {
+  let best: { url: string; width: number; density: number } | null = null;
+
+  for (const { url, descriptor = "1x" } of splitSrcset(srcset)) {
+    if (!url) continue;
+
+    const value = parseFloat(descriptor);
+    const width = descriptor.endsWith("w") ? value : 0;
+    const density = descriptor.endsWith("x") ? value : 0;
+
+    if (
+      !best ||
+      width > best.width ||
+      (width === best.width && density > best.density)
+    ) {
+      best = { url, width, density };
+    }
+  }
+
+  return best?.url ?? null;
+}
+
+/**
+ * Whether a URL looks like an image we can measure.
+ * URLs without extension are kept (many CDNs omit it), other extensions
+ * (`.svg`, `.js`, ...) are not.
+ */
+function isImageUrl(url: URL): boolean {
+  if (url.protocol !== "http:" && url.protocol !== "https:") return false;
+  const lastSegment = url.pathname.split("/").pop() ?? "";
+  if (!lastSegment.includes(".")) return true;
+  const ext = lastSegment.split(".").pop()!.toLowerCase();
+  return IMAGE_EXTENSIONS.includes(ext);
+}
+
+/**
+ * Lists the images an article page may use as its main image.
+ *
+ * Sources, in order:
+ * 1. `og:image` / `twitter:image` meta tags
+ * 2. `<picture><source>` srcsets (largest candidate)
+ * 3. `<img>` srcset (largest candidate), lazy-load attributes, then `src`
+ *
+ * Relative URLs are resolved against the page's `<base>` or URL.
+ * Meta tag images describe the article itself, so they count as content.
+ *
+ * Per-feed selectors change the search:
+ * - `exclude`: matching elements are removed from the page first
+ * - `content`: replaces the default content roots, and `<picture>`/`<img>`
+ *   outside of them are ignored (unless it matches nothing on the page)
+ * - `image`: only matching elements are used, all counting as content
+ *
+ * @param root - Parsed HTML of the article, modified when `exclude` is set
+ * @param pageUrl - URL of the article
+ * @param selectors - Per-feed selectors
+ * @returns Candidates, without duplicate URLs
+ */
+export function findImageCandidates(
+  root: HTMLElement,
+  pageUrl: string,
+  selectors: SelectorOptions = {},
+): ImageCandidate[] {
+  const base = root.querySelector("base[href]")?.getAttribute("href");
+  let baseUrl: URL;
+  try {
+    baseUrl = new URL(base ?? pageUrl, pageUrl);
+  } catch {
+    baseUrl = new URL(pageUrl);
+  }
+
+  if (selectors.exclude) {
+    root.querySelectorAll(selectors.exclude).forEach((e) => e.remove());
+  }
+
+  const contentRootSelector = selectors.content ?? CONTENT_ROOT_SELECTOR;
+  const contentRoots = root.querySelectorAll(contentRootSelector);
+  const hasContentRoot = contentRoots.length > 0;
+  const isInContent = (elem: HTMLElement) =>
+    !hasContentRoot || elem.closest(contentRootSelector) !== null;
+  // An explicit content root scopes the search, the default ones only
+  // weigh in the scoring
+  const scopes = selectors.content && hasContentRoot ? contentRoots : [root];
+
+  const candidates = new Map<string, ImageCandidate>();
+  const add = (
+    raw: string | null | undefined,
+    source: ImageCandidate["source"],
+    inContent: boolean,
+  ) => {
+    if (!raw || raw.startsWith("data:")) return;
+    try {
+      const url = new URL(raw.trim(), baseUrl);
+      if (isImageUrl(url) && !candidates.has(url.toString())) {
+        candidates.set(url.toString(), {
+          url: url.toString(),
+          source,
+          inContent,
+        });
+      }
+    } catch {
+      // Ignore malformed URLs
+    }
+  };
+  const addSrcset = (
+    elem: HTMLElement,
+    source: ImageCandidate["source"],
+    inContent = isInContent(elem),
+  ) => {
+    for (const attr of SRCSET_ATTRIBUTES) {
+      const srcset = elem.getAttribute(attr);
+      if (srcset) add(pickLargestFromSrcset(srcset), source, inContent);
+    }
+  };
+
+  const addImg = (img: HTMLElement, inContent: boolean) => {
+    addSrcset(img, "img", inContent);
+    for (const attr of LAZY_SRC_ATTRIBUTES) {
+      add(img.getAttribute(attr), "img", inContent);
+    }
+    add(img.getAttribute("src"), "img", inContent);
+  };
+
+  if (selectors.image) {
+    for (const elem of root.querySelectorAll(selectors.image)) {
+      if (elem.tagName === "META") {
+        add(elem.getAttribute("content"), "meta", true);
+      } else {
+        addImg(elem, true);
+      }
+    }
+    return [...candidates.values()];
+  }
+
+  for (const selector of META_IMAGE_SELECTORS) {
+    add(root.querySelector(selector)?.getAttribute("content"), "meta", true);
+  }
+
+  for (const scope of scopes) {
+    for (const source of scope.querySelectorAll("picture source")) {
+      addSrcset(source, "picture");
+    }
+
+    for (const img of scope.querySelectorAll("img")) {
+      addImg(img, isInContent(img));
+    }
+  }
+
+  return [...candidates.values()];
+}
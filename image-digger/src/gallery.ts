@@ -0,0 +1,31 @@
+import { GalleryImage } from "./cache";
+import { WIDTH_PRESETS } from "./store";
+
+/** Builds the URL `/image` serves an image of the gallery from. */
+export type GalleryUrl = (position: number, width?: number) => string;
+
+/**
+ * Renders a gallery as a responsive grid, each image offering the width
+ * presets of `/image` through `srcset` and linking to its original.
+ *
+ * @param images - Gallery of the item
+ * @param urlOf - URL of each image
+ * @returns HTML snippet
+ */
+export function renderGallery(
+  images: GalleryImage[],
+  urlOf: GalleryUrl,
+): string {
+  const figures = images
+    .map((image, position) => {
+      // Presets are never upscaled, the original covers larger widths
+      const srcset = WIDTH_PRESETS.filter((w) => w < image.width)
+        .map((w) => `${urlOf(position, w)} ${w}w`)
+        .concat(`${urlOf(position)} ${image.width}w`)
+        .join(", ");
+      return `<a href="${urlOf(position)}"><img src="${urlOf(position)}" srcset="${srcset}" sizes="(max-width: 600px) 100vw, 33vw" width="${image.width}" height="${image.height}" loading="lazy" style="width: 100%; height: auto; display: block;"></a>`;
+    })
+    .join("");
+
+  return `<div style="display: grid; grid-template-columns: repeat(auto-fill, minmax(280px, 1fr)); gap: 8px; width: 100%; box-sizing: border-box; padding: 8px;">${figures}</div>`;
+}
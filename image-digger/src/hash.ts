@@ -0,0 +1,44 @@
+import sharp from "sharp";
+
+/**
+ * Largest Hamming distance between the hashes of two images considered
+ * the same picture (out of 64 bits). Re-encoding, resizing and light crops
+ * stay well below it.
+ */
+export const DUPLICATE_DISTANCE = Number(process.env.DEDUPE_DISTANCE) || 10;
+
+/**
+ * Computes the difference hash (dHash) of an image: the image is shrunk to
+ * 9x8 grayscale pixels, and each bit tells whether a pixel is brighter than
+ * its right neighbour. Near-identical images get near-identical hashes.
+ *
+ * @param file - Path of the image
+ * @returns 64 bits hash, as 16 hexadecimal characters
+ */
+export async function perceptualHash(file: string): Promise<string> {
+  const pixels = await sharp(file)
+    .grayscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      const bit = pixels[y * 9 + x] > pixels[y * 9 + x + 1] ? 1n : 0n;
+      hash = (hash << 1n) | bit;
+    }
+  }
+  return hash.toString(16).padStart(16, "0");
+}
+
+/** Number of differing bits between two hashes of {@link perceptualHash}. */
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let distance = 0;
+  while (diff > 0n) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return distance;
+}
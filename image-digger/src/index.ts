@@ -1,76 +1,147 @@
 import { serve } from "bun";
-import { imageSize } from "image-size";
-import { parse } from "node-html-parser";
+import { renderArticlePage } from "./article";
 import RSS from "rss";
-import Parser from "rss-parser";
-import fs from "fs";
+import {
+  CachedItem,
+  evictExpiredItems,
+  getCachedItem,
+  getCachedItemByGuid,
+  getItemImages,
+  getSnapshot,
+  getStoredImage,
+} from "./cache";
+import {
+  createSourceParser,
+  DigError,
+  digItemWithTimeout,
+  sourceImage,
+} from "./digger";
+import { findDuplicates } from "./dedupe";
+import { GalleryUrl, renderGallery } from "./gallery";
+import {
+  describeImage,
+  ItemMedia,
+  MEDIA_RSS_NAMESPACE,
+  mediaElements,
+  toEnclosure,
+} from "./media";
+import {
+  feedCacheKey,
+  InvalidQueryError,
+  Mode,
+  parseFeedOptions,
+} from "./options";
+import { escapeHtml } from "./snapshot";
+import { getServedImage, WIDTH_PRESETS } from "./store";
 
 const HOST = process.env.HOST;
-const CACHE_FILE = `/tmp/rss-digger-cache.txt`;
-fs.writeFileSync(CACHE_FILE, JSON.stringify([]));
 
 if (!HOST) {
   throw new Error("HOST environment variable is not set");
 }
 
-function getCache(): {
-  guid: string;
-  imageUrl: string;
-  description: string;
-  title: string;
-}[] {
-  try {
-    return JSON.parse(fs.readFileSync(CACHE_FILE, "utf-8"));
-  } catch (e) {
-    return [
-      {
-        guid: "",
-        imageUrl: "",
-        description: "",
-        title: "",
-      },
-    ];
-  }
+/**
+ * What to do with items for which no image was found:
+ * - `enclosure`: use the image the source feed declares, skip if none
+ * - `plain`: emit the item without image
+ * - `skip`: drop the item
+ */
+const FALLBACKS = ["enclosure", "plain", "skip"] as const;
+type Fallback = (typeof FALLBACKS)[number];
+
+const DEFAULT_FALLBACK: Fallback = FALLBACKS.includes(
+  process.env.DEFAULT_FALLBACK as Fallback,
+)
+  ? (process.env.DEFAULT_FALLBACK as Fallback)
+  : "enclosure";
+
+/** Outcome of an item, listed by `/?debug=1`. */
+type ItemReport = {
+  guid: string | null;
+  title: string | null;
+  link: string | null;
+  status: "ok" | "cached" | "fallback" | "skipped" | "duplicate";
+  imageUrl?: string;
+  /** Why no image was found, when it failed */
+  error?: string;
+  /** Guid of the item first showing the same image, for duplicates */
+  duplicateOf?: string;
+};
+
+/** An item about to be emitted, with what it was built from. */
+type OutItem = {
+  options: RSS.ItemOptions;
+  /** Processed item, null for fallbacks */
+  dug: CachedItem | null;
+  report: ItemReport;
+};
+
+// Dropping expired items at startup, then every hour
+evictExpiredItems();
+setInterval(evictExpiredItems, 60 * 60 * 1000);
+
+/**
+ * Query string identifying an item in `/article` and `/image` links: its
+ * feed's cache key and its guid, since guids are only unique per feed.
+ */
+function itemQuery(item: CachedItem): string {
+  return `feed=${encodeURIComponent(item.feed)}&guid=${encodeURIComponent(item.guid)}`;
+}
+
+/**
+ * Finds the item a `/article` or `/image` link points to.
+ * Links published before they carried the feed only have the guid, and
+ * resolve to the most recent item with it.
+ */
+function findLinkedItem(params: URLSearchParams): CachedItem | null {
+  const feed = params.get("feed");
+  const guid = params.get("guid")!;
+  return feed !== null ? getCachedItem(feed, guid) : getCachedItemByGuid(guid);
 }
 
-function getCacheForGuid(guid: string): {
-  guid: string;
-  imageUrl: string;
-  description: string;
-  title: string;
-} | null {
-  const cache = getCache();
-  const idx = cache.findIndex((c) => c.guid === guid);
-  if (idx >= 0) {
-    return cache[idx];
-  }
-  return null;
+/** Public URL of the `/article` page of an item. */
+function articleUrl(item: CachedItem, mode: Mode = "single"): string {
+  const url = `${HOST}:8033/article?${itemQuery(item)}`;
+  return mode === "gallery" ? `${url}&mode=gallery` : url;
 }
 
-function setCache(
-  guid: string,
-  imageUrl: string,
-  title: string,
-  description: string,
-) {
-  const cache = getCache();
-  const idx = cache.findIndex((c) => c.guid === guid);
-  if (idx >= 0) {
-    cache[idx] = {
-      guid,
-      title,
-      imageUrl,
-      description,
-    };
-  } else {
-    cache.push({
-      guid,
-      imageUrl,
-      title,
-      description,
-    });
-  }
-  fs.writeFileSync(CACHE_FILE, JSON.stringify(cache));
+/** URLs of the gallery images of an item, served by `/image`. */
+function galleryUrl(item: CachedItem, base = `${HOST}:8033`): GalleryUrl {
+  return (position, width) =>
+    `${base}/image?${itemQuery(item)}&n=${position}` +
+    (width ? `&w=${width}` : "");
+}
+
+/**
+ * Media of an item: its chosen image, declared through `/image` when there
+ * is a local copy, and in gallery mode every image of its gallery.
+ */
+function itemMedia(
+  item: CachedItem,
+  mode: Mode,
+): { enclosure: ItemMedia; customElements: object[] } {
+  const { content, thumbnail } = describeImage(
+    item.imageUrl,
+    getStoredImage(item.imageUrl)
+      ? (width) =>
+          `${HOST}:8033/image?${itemQuery(item)}` + (width ? `&w=${width}` : "")
+      : null,
+  );
+
+  // Gallery images are downloaded by `/image` when first requested
+  const gallery = mode === "gallery" ? getItemImages(item.feed, item.guid) : [];
+  const contents = gallery.length
+    ? gallery.map(
+        (image, position) =>
+          describeImage(image.url, (width) => galleryUrl(item)(position, width))
+            .content,
+      )
+    : [content];
+
+  return {
+    enclosure: content,
+    customElements: mediaElements(contents, thumbnail),
+  };
 }
 
 // Helper to add CORS headers
@@ -89,6 +160,71 @@ function withCors(original: Response): Response {
 serve({
   port: process.env.PORT || 3000,
   routes: {
+    "/image": async (req) => {
+      const url = new URL(req.url);
+      const guid = url.searchParams.get("guid");
+      const widthParam = url.searchParams.get("w");
+      const positionParam = url.searchParams.get("n");
+
+      if (!guid) {
+        return new Response("No image specified", { status: 400 });
+      }
+
+      // Position in the gallery, the chosen image when absent
+      const position = positionParam === null ? null : Number(positionParam);
+      if (position !== null && !(Number.isInteger(position) && position >= 0)) {
+        return new Response("Invalid n, expected a gallery position", {
+          status: 400,
+        });
+      }
+
+      const width = widthParam === null ? null : Number(widthParam);
+      if (width !== null && !WIDTH_PRESETS.includes(width)) {
+        return new Response(
+          `Invalid width, expected one of ${WIDTH_PRESETS.join(", ")}`,
+          { status: 400 },
+        );
+      }
+
+      const cache = findLinkedItem(url.searchParams);
+
+      if (!cache) {
+        return new Response("No image found", { status: 404 });
+      }
+
+      const imageUrl =
+        position === null
+          ? cache.imageUrl
+          : getItemImages(cache.feed, cache.guid)[position]?.url;
+      if (!imageUrl) {
+        return new Response("No image found", { status: 404 });
+      }
+
+      let image;
+      try {
+        image = await getServedImage(imageUrl, width);
+      } catch (e) {
+        console.error(`Failed to serve image for ${guid}:`, e);
+        return new Response("Image unavailable", { status: 502 });
+      }
+
+      const headers = {
+        ETag: image.etag,
+        // Digging the item again can change its image under the same URL,
+        // so clients revalidate with the ETag after an hour
+        "Cache-Control": "public, max-age=3600",
+      };
+
+      if (req.headers.get("if-none-match") === image.etag) {
+        return withCors(new Response(null, { status: 304, headers }));
+      }
+
+      return withCors(
+        new Response(Bun.file(image.path), {
+          headers: { ...headers, "Content-Type": image.contentType },
+        }),
+      );
+    },
     "/article": async (req) => {
       const url = new URL(req.url);
       const guid = url.searchParams.get("guid");
@@ -97,26 +233,34 @@ serve({
         return new Response("No image specified", { status: 400 });
       }
 
-      const cache = getCacheForGuid(guid);
+      const cache = findLinkedItem(url.searchParams);
 
       if (!cache) {
         return new Response("No image found", { status: 404 });
       }
 
-      const res = new Response(`
-        <html>
-          <head>
-            <title>${cache.title}</title>
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          </head>
-          <body>
-          <div style="display: flex; flex-direction: column; align-items: center; justify-content: center; height: 100vh; width: 100vw;">
-            <img src="${cache.imageUrl}" style="max-width: 100%; max-height: 100%;">
-            <p>${cache.description ?? ''}</p>
-          </div>
-          </body>
-        </html>
-      `);
+      // Shows why this image was chosen
+      const debug = url.searchParams.get("debug") === "1";
+
+      // Items processed before galleries were recorded only have one image
+      const gallery =
+        url.searchParams.get("mode") === "gallery"
+          ? getItemImages(cache.feed, cache.guid)
+          : [];
+      const images =
+        gallery.length > 0
+          ? renderGallery(gallery, galleryUrl(cache, ""))
+          : `<img src="/image?${escapeHtml(itemQuery(cache))}" style="max-width: 100%; max-height: 100%;">`;
+
+      const res = new Response(
+        renderArticlePage({
+          item: cache,
+          images,
+          gallery: gallery.length > 0,
+          snapshot: getSnapshot(cache.feed, cache.guid),
+          debug,
+        }),
+      );
 
       res.headers.set("content-type", "text/html");
 
@@ -125,13 +269,36 @@ serve({
     "/": async (req) => {
       const url = new URL(req.url);
       const feed = url.searchParams.get("feed");
+      const fallback = url.searchParams.get("fallback") ?? DEFAULT_FALLBACK;
+      const debug = url.searchParams.get("debug") === "1";
 
       if (!feed) {
         return new Response("No feed specified", { status: 400 });
       }
+      if (!FALLBACKS.includes(fallback as Fallback)) {
+        return new Response(
+          `Invalid fallback, expected ${FALLBACKS.join("/")}`,
+          { status: 400 },
+        );
+      }
 
-      const parser: Parser = new Parser();
-      const inFeed = await parser.parseURL(feed);
+      let options;
+      try {
+        options = parseFeedOptions(url.searchParams);
+      } catch (e) {
+        if (e instanceof InvalidQueryError) {
+          return new Response(e.message, { status: 400 });
+        }
+        throw e;
+      }
+
+      const parser = createSourceParser();
+      let inFeed;
+      try {
+        inFeed = await parser.parseURL(feed);
+      } catch (e) {
+        return new Response(`Failed to fetch feed: ${e}`, { status: 502 });
+      }
 
       const outFeed = new RSS({
         title: inFeed.title!,
@@ -139,89 +306,116 @@ serve({
         feed_url: inFeed.feedUrl!,
         site_url: inFeed.feedUrl!,
         language: "en",
+        custom_namespaces: { media: MEDIA_RSS_NAMESPACE },
       });
 
-      const proms = [] as Promise<void>[];
-
-      // only keeping the 10 most recent items
+      // only keeping the most recent items
       inFeed.items.sort((a, b) => {
         return Date.parse(b.pubDate!) - Date.parse(a.pubDate!);
       });
-      inFeed.items = inFeed.items.slice(0, 10);
-
-      for (const item of inFeed.items) {
-        const p = new Promise<{
-          title: string;
-          description: string;
-          url: string;
-          guid: string;
-          enclosure: { url: string };
-          date: string;
-        }>(async (resolve, reject) => {
-          // Following the link
-          const res = await fetch(item.link!).then((res) => res.text());
-
-          // Parse the HTML
-          const root = parse(res);
-
-          const elems = root.querySelectorAll("img[src]");
-          if (elems.length === 0) {
-            reject();
-          }
+      inFeed.items = inFeed.items.slice(0, options.limit);
 
-          // Downloading all the images, and finding the biggest one
-          const imgs = await Promise.all(
-            elems.map(async (elem) => {
-              const imageUrl = elem.getAttribute("src");
-              if (!imageUrl || !/.(jpg|png)$/.test(imageUrl)) {
-                return { url: "", blob: null };
-              }
-              const res = await fetch(imageUrl).then((res) => res.bytes());
-              return { url: imageUrl, blob: res };
-            }),
-          );
-
-          let biggest = {
-            size: 0,
-            url: "",
+      const reports: ItemReport[] = [];
+
+      const outItems = await Promise.all(
+        inFeed.items.map(async (item): Promise<OutItem | null> => {
+          const report: ItemReport = {
+            guid: item.guid ?? null,
+            title: item.title ?? null,
+            link: item.link ?? null,
+            status: "ok",
           };
-          for (const img of imgs) {
-            if (!img.blob) continue;
-
-            const size = imageSize(img.blob);
-            if (size.width * size.height > biggest.size) {
-              biggest = {
-                size: size.width * size.height,
-                url: img.url,
-              };
+          reports.push(report);
+
+          try {
+            const { item: dug, cached } = await digItemWithTimeout(
+              feed,
+              item,
+              options.selectors,
+              options.snapshot,
+            );
+            report.status = cached ? "cached" : "ok";
+            report.imageUrl = dug.imageUrl;
+            const { enclosure, customElements } = itemMedia(dug, options.mode);
+            return {
+              options: {
+                title: dug.title,
+                description: dug.description ?? "",
+                url: articleUrl(dug, options.mode),
+                guid: dug.guid,
+                enclosure: toEnclosure(enclosure),
+                date: item.pubDate!,
+                custom_elements: customElements,
+              },
+              dug,
+              report,
+            };
+          } catch (e) {
+            report.error = e instanceof DigError ? e.message : String(e);
+            if (!(e instanceof DigError)) {
+              console.error(`Failed to process ${item.link}:`, e);
             }
           }
 
-          if (biggest.size === 0) {
-            return reject();
+          // No image of our own, applying the fallback
+          const image = fallback === "enclosure" ? sourceImage(item) : null;
+          if (fallback === "skip" || (fallback === "enclosure" && !image)) {
+            report.status = "skipped";
+            return null;
           }
+          report.status = "fallback";
+          report.imageUrl = image?.url;
+          return {
+            options: {
+              title: item.title ?? "",
+              description: item.description ?? "",
+              url: item.link ?? feed,
+              guid: item.guid,
+              enclosure: image ? toEnclosure(image) : undefined,
+              date: item.pubDate!,
+              custom_elements: image ? mediaElements([image], null) : [],
+            },
+            dug: null,
+            report,
+          };
+        }),
+      );
+
+      if (options.dedupe) {
+        const duplicates = findDuplicates(
+          feedCacheKey(feed, options.selectors),
+          outItems.flatMap((out) => (out?.dug ? [out.dug] : [])),
+        );
+
+        outItems.forEach((out, i) => {
+          const original = out?.dug && duplicates.get(out.dug.guid);
+          if (!out || !original) return;
 
-          setCache(item.guid!, biggest.url, item.title!, item.description);
+          out.report.status = "duplicate";
+          out.report.duplicateOf = original.guid;
+          outItems[i] = null;
 
-          resolve({
-            title: item.title!,
-            description: item.description,
-            url: `${HOST}:8033/article?guid=${encodeURIComponent(item.guid!)}`,
-            guid: item.guid!,
-            enclosure: { url: biggest.url },
-            date: item.pubDate!,
-          });
+          // Merged into the original when it is part of this feed too
+          const target = outItems.find((o) => o?.dug?.guid === original.guid);
+          if (target) {
+            target.options.description += `<p>Same picture: <a href="${escapeHtml(out.report.link ?? out.options.url!)}">${escapeHtml(out.options.title!)}</a></p>`;
+          }
         });
+      }
 
-        proms.push(
-          p.then((res) => {
-            outFeed.item(res);
-          }),
-        );
+      for (const item of outItems) {
+        if (item) outFeed.item(item.options);
       }
 
-      await Promise.all(proms);
-      return new Response(outFeed.xml());
+      const failures = reports.filter((r) => r.error).length;
+
+      if (debug) {
+        return Response.json({ feed, fallback, failures, items: reports });
+      }
+
+      return new Response(outFeed.xml(), {
+        headers: { "X-Digger-Failures": String(failures) },
+      });
     },
   },
 });
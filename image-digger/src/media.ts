@@ -0,0 +1,118 @@
+import fs from "fs";
+import { getCachedImageSize, getStoredImage } from "./cache";
+import { formatToContentType } from "./store";
+
+/** Namespace of the Media RSS elements (`media:content`, `media:thumbnail`). */
+export const MEDIA_RSS_NAMESPACE = "http://search.yahoo.com/mrss/";
+
+/** Width of the `media:thumbnail` of an item, one of the `/image` presets. */
+const THUMBNAIL_WIDTH = 320;
+
+/** An image as declared in the feed, with what is known about it. */
+export type ItemMedia = {
+  /** Public URL of the image */
+  url: string;
+  width?: number;
+  height?: number;
+  /** MIME type */
+  type?: string;
+  /** Size of the file in bytes */
+  fileSize?: number;
+};
+
+/** Builds the URL `/image` serves an image from, resized to a width. */
+export type LocalUrl = (width?: number) => string;
+
+/**
+ * Gathers what the probe cache and the image store know about an image.
+ *
+ * @param originalUrl - Original URL of the image
+ * @param localUrl - URL of the image through `/image`, null to declare the
+ *   original URL (e.g. when it couldn't be stored)
+ * @returns The image and its thumbnail
+ */
+export function describeImage(
+  originalUrl: string,
+  localUrl: LocalUrl | null,
+): { content: ItemMedia; thumbnail: ItemMedia } {
+  const size = getCachedImageSize(originalUrl);
+  const stored = getStoredImage(originalUrl);
+
+  // `/image` serves the original bytes, so the probed file size holds
+  const content: ItemMedia = {
+    url: localUrl ? localUrl() : originalUrl,
+    width: size?.width,
+    height: size?.height,
+    type:
+      stored?.contentType ??
+      (size?.type ? formatToContentType(size.type) : undefined),
+    fileSize: size?.fileSize ?? undefined,
+  };
+  if (stored) {
+    try {
+      content.fileSize = fs.statSync(stored.path).size;
+    } catch {
+      // Evicted meanwhile, `/image` downloads it again
+    }
+  }
+
+  if (!localUrl || !content.width || !content.height) {
+    // Without resized copies, readers scale the image down themselves
+    return { content, thumbnail: content };
+  }
+
+  // `/image` never upscales, smaller images are served as is
+  const width = Math.min(THUMBNAIL_WIDTH, content.width);
+  const thumbnail: ItemMedia = {
+    url: width < content.width ? localUrl(width) : content.url,
+    width,
+    height: Math.round((content.height * width) / content.width),
+    type: content.type,
+  };
+  return { content, thumbnail };
+}
+
+/**
+ * Converts an image to the `enclosure` of an RSS item.
+ */
+export function toEnclosure(media: ItemMedia): {
+  url: string;
+  type?: string;
+  size?: number;
+} {
+  return { url: media.url, type: media.type, size: media.fileSize };
+}
+
+/**
+ * Builds one `media:content` element per image, plus the item's
+ * `media:thumbnail`, to be used as the `custom_elements` of an RSS item.
+ *
+ * @param contents - Images of the item
+ * @param thumbnail - Thumbnail of the item, if any
+ * @returns node-xml elements for the rss package
+ */
+export function mediaElements(
+  contents: ItemMedia[],
+  thumbnail: ItemMedia | null,
+): object[] {
+  const elements: object[] = contents.map((media) => {
+    const attrs: Record<string, string | number> = {
+      url: media.url,
+      medium: "image",
+    };
+    if (media.type) attrs.type = media.type;
+    if (media.fileSize) attrs.fileSize = media.fileSize;
+    if (media.width) attrs.width = media.width;
+    if (media.height) attrs.height = media.height;
+    return { "media:content": { _attr: attrs } };
+  });
+
+  if (thumbnail) {
+    const attrs: Record<string, string | number> = { url: thumbnail.url };
+    if (thumbnail.width) attrs.width = thumbnail.width;
+    if (thumbnail.height) attrs.height = thumbnail.height;
+    elements.push({ "media:thumbnail": { _attr: attrs } });
+  }
+
+  return elements;
+}
@@ -0,0 +1,121 @@
+import { parse } from "node-html-parser";
+
+/** Number of items kept when the `limit` parameter is absent. */
+export const DEFAULT_ITEM_LIMIT = 10;
+
+/** Maximum value accepted for the `limit` parameter. */
+export const MAX_ITEM_LIMIT = 50;
+
+/**
+ * How items are presented:
+ * - `single`: the best image of each article
+ * - `gallery`: every image of the article passing the scoring
+ */
+export const MODES = ["single", "gallery"] as const;
+export type Mode = (typeof MODES)[number];
+
+/** Error for query parameters the service can't use, answered with a 400. */
+export class InvalidQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidQueryError";
+  }
+}
+
+/** Per-feed CSS selectors tuning where images are searched. */
+export type SelectorOptions = {
+  /** Elements holding the article's content; images elsewhere are ignored */
+  content?: string;
+  /** Elements to take the image from, replacing the usual discovery */
+  image?: string;
+  /** Elements removed from the page before searching */
+  exclude?: string;
+};
+
+/** Options of a feed, read from the query parameters. */
+export type FeedOptions = {
+  /** Number of most recent items to keep */
+  limit: number;
+  mode: Mode;
+  /** Whether to keep offline copies of the articles' text */
+  snapshot: boolean;
+  /** Whether to drop items showing the same image as a previous one */
+  dedupe: boolean;
+  selectors: SelectorOptions;
+};
+
+/**
+ * Checks that a selector is understood by node-html-parser, so a typo is
+ * reported once instead of failing every article.
+ */
+function parseSelector(
+  params: URLSearchParams,
+  name: string,
+): string | undefined {
+  const selector = params.get(name)?.trim();
+  if (!selector) return undefined;
+  try {
+    parse("<div></div>").querySelectorAll(selector);
+  } catch {
+    throw new InvalidQueryError(`Invalid ${name}, expected a CSS selector`);
+  }
+  return selector;
+}
+
+/**
+ * Reads the per-feed options: `limit`, `mode`, `snapshot`, `dedupe`,
+ * `content`, `image` and `exclude`.
+ *
+ * @param params - Query parameters of the incoming request
+ * @returns Options, with defaults for the absent parameters
+ * @throws InvalidQueryError when a value is invalid
+ */
+export function parseFeedOptions(params: URLSearchParams): FeedOptions {
+  let limit = DEFAULT_ITEM_LIMIT;
+  const limitParam = params.get("limit");
+  if (limitParam !== null) {
+    limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ITEM_LIMIT) {
+      throw new InvalidQueryError(
+        `Invalid limit, expected an integer between 1 and ${MAX_ITEM_LIMIT}`,
+      );
+    }
+  }
+
+  const mode = (params.get("mode") ?? "single") as Mode;
+  if (!MODES.includes(mode)) {
+    throw new InvalidQueryError(`Invalid mode, expected ${MODES.join("/")}`);
+  }
+
+  return {
+    limit,
+    mode,
+    snapshot: params.get("snapshot") === "1",
+    dedupe: params.get("dedupe") === "1",
+    selectors: {
+      content: parseSelector(params, "content"),
+      image: parseSelector(params, "image"),
+      exclude: parseSelector(params, "exclude"),
+    },
+  };
+}
+
+/**
+ * Key under which the items of a feed are cached. Items dug with different
+ * selectors may get different images, so the selectors are part of it; the
+ * limit and mode only decide which items and images are shown, so they
+ * aren't (galleries are recorded in every mode), and snapshots are stored
+ * next to the items.
+ *
+ * @param feed - URL of the source feed
+ * @param selectors - Selectors the items are dug with
+ * @returns The feed URL alone when no selector is set
+ */
+export function feedCacheKey(feed: string, selectors: SelectorOptions): string {
+  const params = new URLSearchParams();
+  for (const name of ["content", "image", "exclude"] as const) {
+    const selector = selectors[name];
+    if (selector) params.set(name, selector);
+  }
+  return params.size > 0 ? `${feed} ${params}` : feed;
+}
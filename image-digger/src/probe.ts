@@ -0,0 +1,92 @@
+import { imageSize } from "image-size";
+import { getCachedImageSize, ImageSize, setCachedImageSize } from "./cache";
+
+/** Maximum number of bytes read from a single image. */
+const MAX_PROBE_BYTES = (Number(process.env.MAX_PROBE_KB) || 512) * 1024;
+
+/** Time allowed to probe a single image. */
+const PROBE_TIMEOUT_MS = 10_000;
+
+/**
+ * Reads the total size of the file from `Content-Range` (partial
+ * responses) or `Content-Length` (full responses).
+ */
+function readFileSize(res: Response): number | null {
+  const range = res.headers.get("content-range")?.match(/\/(\d+)$/);
+  if (range) return Number(range[1]);
+  const length = Number(res.headers.get("content-length"));
+  return res.status === 200 && length > 0 ? length : null;
+}
+
+/**
+ * Finds the dimensions of a remote image without downloading all of it.
+ *
+ * Algorithm:
+ * 1. Return the cached dimensions if the URL was already probed
+ * 2. Ask for the first MAX_PROBE_BYTES with a Range request (servers
+ *    ignoring it send the whole file, which is fine since we stream it)
+ * 3. Feed the received bytes to image-size after each chunk
+ * 4. Stop reading as soon as it decides, or after MAX_PROBE_BYTES
+ *
+ * @param url - Absolute URL of the image
+ * @param signal - Aborts the probe, which then returns null
+ * @returns Dimensions, or null when the URL isn't a measurable image
+ */
+export async function probeImageSize(
+  url: string,
+  signal?: AbortSignal,
+): Promise<ImageSize | null> {
+  const cached = getCachedImageSize(url);
+  if (cached) return cached;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+
+  try {
+    const res = await fetch(url, {
+      headers: { Range: `bytes=0-${MAX_PROBE_BYTES - 1}` },
+      signal: signal
+        ? AbortSignal.any([controller.signal, signal])
+        : controller.signal,
+    });
+    if (!res.ok || !res.body) return null;
+
+    const fileSize = readFileSize(res);
+    const reader = res.body.getReader();
+    let buffer = new Uint8Array(0);
+
+    while (buffer.length < MAX_PROBE_BYTES) {
+      const { done, value } = await reader.read();
+      if (value) {
+        const next = new Uint8Array(buffer.length + value.length);
+        next.set(buffer);
+        next.set(value, buffer.length);
+        buffer = next;
+      }
+
+      try {
+        const dims = imageSize(buffer);
+        const size: ImageSize = {
+          width: dims.width,
+          height: dims.height,
+          type: dims.type ?? null,
+          fileSize,
+        };
+        setCachedImageSize(url, size);
+        return size;
+      } catch {
+        // Not enough bytes yet (or not an image), keep reading
+      }
+
+      if (done) break;
+    }
+
+    return null;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeout);
+    // Dropping the rest of the download
+    controller.abort();
+  }
+}
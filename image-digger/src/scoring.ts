@@ -0,0 +1,137 @@
+import { ImageSize } from "./cache";
+import { ImageCandidate } from "./discovery";
+
+/** Images smaller than this are never chosen. */
+const MIN_WIDTH = Number(process.env.MIN_IMAGE_WIDTH) || 300;
+const MIN_HEIGHT = Number(process.env.MIN_IMAGE_HEIGHT) || 200;
+
+/** Images wider (or taller) than this ratio are banners, not photos. */
+const MAX_ASPECT_RATIO = 3;
+
+/** Multiplier applied to images outside the article's main content. */
+const OUTSIDE_CONTENT_FACTOR = 0.3;
+
+/**
+ * Multiplier applied to images found on most articles of a site, once the
+ * site has enough known articles to tell.
+ */
+const SITE_WIDE_FACTOR = 0.1;
+const SITE_WIDE_MIN_ARTICLES = 3;
+const SITE_WIDE_MIN_FREQUENCY = 0.6;
+
+/** Hosts of ad networks and trackers. */
+const BLOCKED_DOMAINS = [
+  "doubleclick.net",
+  "googlesyndication.com",
+  "googleadservices.com",
+  "amazon-adsystem.com",
+  "adnxs.com",
+  "taboola.com",
+  "outbrain.com",
+  "criteo.com",
+  "scorecardresearch.com",
+  "facebook.com",
+  "pixel.wp.com",
+];
+
+/** Path fragments of logos, avatars, icons and ads. */
+const BLOCKED_PATH_PATTERN =
+  /\/(logos?|avatars?|icons?|sprites?|badges?|ads?|banners?|pixel|tracking|emoji)([/_.-]|$)/i;
+
+/** A candidate with its dimensions and score. */
+export type ScoredImage = {
+  url: string;
+  width: number;
+  height: number;
+  /** 0 for rejected images, higher is better otherwise */
+  score: number;
+  /** Human readable explanation of the score */
+  reason: string;
+};
+
+/** What the scorer knows about a candidate. */
+export type ScoringInput = {
+  candidate: ImageCandidate;
+  size: ImageSize;
+  /** Share of the site's articles showing this image (0 to 1) */
+  siteFrequency: number;
+  /** Number of articles of the site known to the cache */
+  siteArticles: number;
+};
+
+/**
+ * Scores a candidate image of an article.
+ *
+ * Algorithm:
+ * 1. Reject blocklisted hosts and paths, images below the minimum size and
+ *    images with extreme aspect ratios (score 0)
+ * 2. Start from the pixel count
+ * 3. Penalize images outside the main content
+ * 4. Penalize images found on most articles of the same site
+ *
+ * @param input - Candidate, dimensions and site statistics
+ * @returns Score and the reasons behind it
+ */
+export function scoreImage(input: ScoringInput): ScoredImage {
+  const { candidate, size, siteFrequency, siteArticles } = input;
+  const { width, height } = size;
+  const scored = (score: number, reasons: string[]): ScoredImage => ({
+    url: candidate.url,
+    width,
+    height,
+    score,
+    reason: reasons.join(", "),
+  });
+
+  const url = new URL(candidate.url);
+  const host = url.hostname.toLowerCase();
+  if (BLOCKED_DOMAINS.some((d) => host === d || host.endsWith(`.${d}`))) {
+    return scored(0, [`rejected: blocked domain ${host}`]);
+  }
+  if (BLOCKED_PATH_PATTERN.test(url.pathname)) {
+    return scored(0, [`rejected: blocked path ${url.pathname}`]);
+  }
+  if (width < MIN_WIDTH || height < MIN_HEIGHT) {
+    return scored(0, [`rejected: too small (${width}x${height})`]);
+  }
+  const ratio = Math.max(width / height, height / width);
+  if (ratio > MAX_ASPECT_RATIO) {
+    return scored(0, [`rejected: aspect ratio ${ratio.toFixed(1)}`]);
+  }
+
+  let score = width * height;
+  const reasons = [`${width}x${height}`, `from ${candidate.source}`];
+
+  if (!candidate.inContent) {
+    score *= OUTSIDE_CONTENT_FACTOR;
+    reasons.push("outside main content");
+  }
+
+  if (
+    siteArticles >= SITE_WIDE_MIN_ARTICLES &&
+    siteFrequency >= SITE_WIDE_MIN_FREQUENCY
+  ) {
+    score *= SITE_WIDE_FACTOR;
+    reasons.push(
+      `on ${Math.round(siteFrequency * 100)}% of the site's articles`,
+    );
+  }
+
+  return scored(score, reasons);
+}
+
+/**
+ * Picks the best scored image, ignoring rejected ones.
+ *
+ * @param images - Scored candidates
+ * @returns The best image, or null if they were all rejected
+ */
+export function pickBestImage(images: ScoredImage[]): ScoredImage | null {
+  let best: ScoredImage | null = null;
+  for (const image of images) {
+    if (image.score > 0 && (!best || image.score > best.score)) {
+      best = image;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,192 @@
+import { HTMLElement, Node, NodeType } from "node-html-parser";
+import { SelectorOptions } from "./options";
+
+/** Longest snapshot kept, in characters of cleaned HTML. */
+const MAX_SNAPSHOT_LENGTH = 200_000;
+
+/** Elements never part of an article's text. */
+const NOISE_SELECTOR =
+  "script, style, noscript, template, iframe, object, embed, form, button, input, select, textarea, nav, header, footer, aside, svg, canvas";
+
+/** Elements likely wrapping the article's text, tried in order. */
+const CONTENT_ROOT_SELECTORS = [
+  '[itemprop="articleBody"]',
+  "article",
+  '[role="main"]',
+  "main",
+];
+
+/** Elements kept in snapshots; the others are unwrapped, keeping their text. */
+const ALLOWED_TAGS = new Set([
+  "div",
+  "section",
+  "p",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "ul",
+  "ol",
+  "li",
+  "blockquote",
+  "pre",
+  "code",
+  "em",
+  "strong",
+  "b",
+  "i",
+  "a",
+  "br",
+  "hr",
+  "figure",
+  "figcaption",
+  "table",
+  "thead",
+  "tbody",
+  "tr",
+  "th",
+  "td",
+]);
+
+/** Escapes a string to be safely put inside HTML text or attributes. */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Finds the element holding the article's text: the per-feed content
+ * selector, the usual article containers, or else the element with the
+ * most paragraph text.
+ */
+function findContentRoot(
+  root: HTMLElement,
+  selectors: SelectorOptions,
+): HTMLElement {
+  for (const selector of [
+    ...(selectors.content ? [selectors.content] : []),
+    ...CONTENT_ROOT_SELECTORS,
+  ]) {
+    const elem = root.querySelector(selector);
+    if (elem && elem.textContent.trim().length > 0) return elem;
+  }
+
+  // Readability's heuristic, simplified: the parent of the most text
+  const scores = new Map<HTMLElement, number>();
+  for (const p of root.querySelectorAll("p")) {
+    const parent = p.parentNode;
+    if (!parent) continue;
+    scores.set(parent, (scores.get(parent) ?? 0) + p.textContent.trim().length);
+  }
+  let best: HTMLElement = root.querySelector("body") ?? root;
+  let bestScore = 0;
+  for (const [elem, score] of scores) {
+    if (score > bestScore) {
+      best = elem;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Characters a snapshot may still take, shared by all its nodes. */
+type Budget = { remaining: number };
+
+/**
+ * Serializes a node keeping only the allowed elements, with escaped text
+ * and absolute http(s) links as the only attributes.
+ *
+ * Output stops once the budget is spent. Text is cut where it runs out,
+ * and elements reserve their closing tag upfront, so the markup stays
+ * well-formed.
+ */
+function clean(node: Node, baseUrl: string, budget: Budget): string {
+  if (budget.remaining <= 0) return "";
+
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    // `text` decodes the entities of the raw HTML text
+    let text = escapeHtml(node.text);
+    if (text.length > budget.remaining) {
+      // Not leaving half an entity behind
+      text = text.slice(0, budget.remaining).replace(/&[a-z]*$/, "");
+    }
+    budget.remaining -= text.length;
+    return text;
+  }
+  if (node.nodeType !== NodeType.ELEMENT_NODE) return "";
+
+  const elem = node as HTMLElement;
+  // The document itself has no tag name
+  const tag = (elem.rawTagName || "").toLowerCase();
+  const cleanChildren = () =>
+    elem.childNodes.map((child) => clean(child, baseUrl, budget)).join("");
+
+  if (!ALLOWED_TAGS.has(tag)) return cleanChildren();
+  if (tag === "br" || tag === "hr") {
+    if (budget.remaining < tag.length + 2) return "";
+    budget.remaining -= tag.length + 2;
+    return `<${tag}>`;
+  }
+
+  let open = `<${tag}>`;
+  if (tag === "a") {
+    const href = safeUrl(elem.getAttribute("href"), baseUrl);
+    open = href ? `<a href="${escapeHtml(href)}">` : "";
+  }
+  const close = open ? `</${tag}>` : "";
+  const tags = open.length + close.length;
+  if (tags >= budget.remaining) return "";
+
+  budget.remaining -= tags;
+  const inner = cleanChildren();
+  if (!inner.trim()) {
+    budget.remaining += tags;
+    return "";
+  }
+  return open + inner + close;
+}
+
+/** Resolves a link, keeping only http(s) ones. */
+function safeUrl(raw: string | undefined, baseUrl: string): string | null {
+  if (!raw) return null;
+  try {
+    const url = new URL(raw, baseUrl);
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extracts a readability-style snapshot of an article: the text of its
+ * main content, stripped of navigation, ads, scripts and attributes.
+ *
+ * @param root - Parsed HTML of the article, modified in place
+ * @param pageUrl - URL of the article, to resolve relative links
+ * @param selectors - Per-feed selectors (`content` and `exclude`)
+ * @returns Sanitized HTML, safe to embed as is, or null if no text found
+ */
+export function extractSnapshot(
+  root: HTMLElement,
+  pageUrl: string,
+  selectors: SelectorOptions = {},
+): string | null {
+  root.querySelectorAll(NOISE_SELECTOR).forEach((e) => e.remove());
+  if (selectors.exclude) {
+    root.querySelectorAll(selectors.exclude).forEach((e) => e.remove());
+  }
+
+  const budget: Budget = { remaining: MAX_SNAPSHOT_LENGTH };
+  const html = findContentRoot(root, selectors)
+    .childNodes.map((child) => clean(child, pageUrl, budget))
+    .join("")
+    .trim();
+  return html || null;
+}
@@ -0,0 +1,173 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { getStoredImage, setStoredImage, StoredImage } from "./cache";
+
+/** Directory of the local image store, next to the cache by default. */
+const IMAGE_DIR = process.env.IMAGE_DIR || "/data/images";
+
+/** Largest image accepted in the store. */
+const MAX_IMAGE_BYTES = (Number(process.env.MAX_IMAGE_MB) || 20) * 1024 * 1024;
+
+/** Time allowed to download a single image, body included. */
+const DOWNLOAD_TIMEOUT_MS = 30_000;
+
+/** Widths `/image` can resize to. */
+export const WIDTH_PRESETS = [320, 640, 1024, 1920];
+
+/** Image served by `/image`. */
+export type ServedImage = {
+  /** Path of the file to send */
+  path: string;
+  contentType: string;
+  /** Strong validator, unique per image and width */
+  etag: string;
+};
+
+/** Hash naming the directory of an image in the store. */
+function hashUrl(url: string): string {
+  return crypto.createHash("sha256").update(url).digest("hex").slice(0, 32);
+}
+
+/**
+ * Reads a response body, giving up as soon as it exceeds MAX_IMAGE_BYTES
+ * rather than buffering all of it first.
+ */
+async function readImageBody(res: Response, url: string): Promise<Uint8Array> {
+  if (!res.body) return new Uint8Array(0);
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > MAX_IMAGE_BYTES) {
+      await reader.cancel();
+      throw new Error(`Image too large: ${url}`);
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
+
+/**
+ * Downloads an image into the local store, unless it is already there.
+ * Each image gets its own directory: `<hash>/original`, plus one file per
+ * resized variant.
+ *
+ * @param url - Original URL of the image
+ * @param signal - Aborts the download
+ * @returns The stored image
+ * @throws Error when the download fails or times out, the file is too
+ * large, or it is not a raster image
+ */
+export async function storeImage(
+  url: string,
+  signal?: AbortSignal,
+): Promise<StoredImage> {
+  const existing = getStoredImage(url);
+  if (existing && fs.existsSync(existing.path)) return existing;
+
+  const res = await fetch(url, {
+    signal: AbortSignal.any([
+      AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+      ...(signal ? [signal] : []),
+    ]),
+  });
+  if (!res.ok) {
+    throw new Error(`Failed to download ${url}: HTTP ${res.status}`);
+  }
+  if (Number(res.headers.get("content-length")) > MAX_IMAGE_BYTES) {
+    throw new Error(`Image too large: ${url}`);
+  }
+  const data = await readImageBody(res, url);
+
+  // Servers often send a generic type, trust the bytes instead
+  const { format } = await sharp(data).metadata();
+  if (!format) {
+    throw new Error(`Not an image: ${url}`);
+  }
+  // Scripts of an SVG would run on our origin when the image is opened
+  if (format === "svg") {
+    throw new Error(`SVG images are not stored: ${url}`);
+  }
+
+  const dir = path.join(IMAGE_DIR, hashUrl(url));
+  fs.mkdirSync(dir, { recursive: true });
+  const image: StoredImage = {
+    url,
+    path: path.join(dir, "original"),
+    contentType: formatToContentType(format),
+  };
+  fs.writeFileSync(image.path, data);
+  setStoredImage(image);
+  return image;
+}
+
+/**
+ * Returns an image of the store, resized to a width preset if asked.
+ * Images are never upscaled, and resized variants are kept on disk.
+ *
+ * @param url - Original URL of the image, downloaded if not stored yet
+ * @param width - One of WIDTH_PRESETS, or null for the original
+ * @returns File, content type and ETag of the image
+ */
+export async function getServedImage(
+  url: string,
+  width: number | null,
+): Promise<ServedImage> {
+  const image = await storeImage(url);
+  const hash = hashUrl(url);
+
+  if (width === null) {
+    return {
+      path: image.path,
+      contentType: image.contentType,
+      etag: `"${hash}"`,
+    };
+  }
+
+  const variantPath = path.join(path.dirname(image.path), `w${width}`);
+  if (!fs.existsSync(variantPath)) {
+    const resized = await sharp(fs.readFileSync(image.path), { animated: true })
+      .resize({ width, withoutEnlargement: true })
+      .toBuffer();
+    fs.writeFileSync(variantPath, resized);
+  }
+
+  return {
+    path: variantPath,
+    // Variants keep the format of the original
+    contentType: image.contentType,
+    etag: `"${hash}-w${width}"`,
+  };
+}
+
+/**
+ * Maps a format name to its MIME type. Works with the formats of sharp as
+ * well as the types of image-size.
+ */
+export function formatToContentType(format: string): string {
+  switch (format) {
+    case "jpeg":
+    case "jpg":
+      return "image/jpeg";
+    case "heif":
+      return "image/avif";
+    case "svg":
+      return "image/svg+xml";
+    default:
+      return `image/${format}`;
+  }
+}
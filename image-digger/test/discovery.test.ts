@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { pickLargestFromSrcset } from "../src/discovery";
+
+describe("pickLargestFromSrcset", () => {
+  test("splits candidates on commas, spaced or not", () => {
+    expect(pickLargestFromSrcset("a.jpg 640w,b.jpg 1280w")).toBe("b.jpg");
+    expect(pickLargestFromSrcset("a.jpg 640w, b.jpg 1280w")).toBe("b.jpg");
+    expect(pickLargestFromSrcset("a.jpg 2x ,b.jpg 1x")).toBe("a.jpg");
+  });
+
+  test("keeps the commas inside URLs", () => {
+    const small =
+      "https://res.cloudinary.com/demo/image/upload/w_640,h_480/cat.jpg";
+    const large =
+      "https://res.cloudinary.com/demo/image/upload/w_1280,h_960/cat.jpg";
+    expect(pickLargestFromSrcset(`${small} 640w, ${large} 1280w`)).toBe(large);
+    expect(pickLargestFromSrcset(`${large} 1280w,${small} 640w`)).toBe(large);
+  });
+
+  test("reads candidates without descriptor as 1x", () => {
+    expect(pickLargestFromSrcset("a.jpg, b.jpg 2x")).toBe("b.jpg");
+    expect(pickLargestFromSrcset("a.jpg 1.5x,b.jpg")).toBe("a.jpg");
+    expect(pickLargestFromSrcset("https://example.com/a.jpg")).toBe(
+      "https://example.com/a.jpg",
+    );
+  });
+
+  test("finds nothing in an empty srcset", () => {
+    expect(pickLargestFromSrcset("")).toBeNull();
+    expect(pickLargestFromSrcset(" , ")).toBeNull();
+  });
+});
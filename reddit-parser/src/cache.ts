@@ -0,0 +1,45 @@
+/** Entry of a {@link TtlCache}. */
+type CacheEntry<T> = {
+  value: T;
+  /** Timestamp (ms) at which the value was stored */
+  storedAt: number;
+};
+
+/**
+ * In-memory cache whose entries are fresh for `ttlMs`, then kept as stale
+ * for `staleMs` more, so they can still be served when upstream fails.
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+
+  constructor(
+    private ttlMs: number,
+    private staleMs: number = 0,
+  ) {}
+
+  /** Returns the value if it is still fresh, undefined otherwise. */
+  get(key: string, now: number = Date.now()): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || now - entry.storedAt > this.ttlMs) return undefined;
+    return entry.value;
+  }
+
+  /** Returns the value even if it expired, as long as it is not dropped yet. */
+  getStale(key: string, now: number = Date.now()): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || now - entry.storedAt > this.ttlMs + this.staleMs) {
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  /** Stores a value and drops the entries past their stale period. */
+  set(key: string, value: T, now: number = Date.now()): void {
+    this.entries.set(key, { value, storedAt: now });
+    for (const [k, entry] of this.entries) {
+      if (now - entry.storedAt > this.ttlMs + this.staleMs) {
+        this.entries.delete(k);
+      }
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { HTMLElement } from "node-html-parser";
+import { InvalidQueryError, REDDIT_BASE_URL } from "./listing";
+import { escapeHtml } from "./media";
+
+/** Maximum value accepted for the `comments` parameter. */
+export const MAX_COMMENTS = 20;
+
+/** Maximum number of replies shown under each top-level comment. */
+const MAX_REPLIES = 3;
+
+/** A comment scraped from a Reddit post page. */
+export type Comment = {
+  author: string;
+  /** Null when the subreddit hides scores */
+  score: number | null;
+  /** Body as rendered by Reddit */
+  html: string;
+  /** Direct replies, only filled for top-level comments */
+  replies: Comment[];
+};
+
+/**
+ * Reads the `comments` parameter: how many top-level comments to inline
+ * under each item.
+ *
+ * @param params - Query parameters of the incoming request
+ * @returns Number of comments, 0 when the parameter is absent
+ * @throws InvalidQueryError when the value is not between 0 and MAX_COMMENTS
+ */
+export function parseCommentsLimit(params: URLSearchParams): number {
+  const param = params.get("comments");
+  if (param === null) return 0;
+
+  const limit = Number(param);
+  if (!Number.isInteger(limit) || limit < 0 || limit > MAX_COMMENTS) {
+    throw new InvalidQueryError(
+      `Invalid comments, expected an integer between 0 and ${MAX_COMMENTS}`,
+    );
+  }
+  return limit;
+}
+
+/**
+ * Converts a `<shreddit-comment>` element, ignoring its replies.
+ */
+function toComment(elem: HTMLElement): Comment {
+  const score = Number(elem.getAttribute("score"));
+  // The comment's own body comes before the bodies of its replies
+  const body = elem.querySelector("div[slot=comment]");
+  body?.querySelectorAll("script, style").forEach((e) => e.remove());
+  // Feed readers need absolute URLs, Reddit links users and subs relatively
+  body?.querySelectorAll("a[href]").forEach((a) => {
+    try {
+      a.setAttribute(
+        "href",
+        new URL(a.getAttribute("href")!, REDDIT_BASE_URL).toString(),
+      );
+    } catch {
+      a.removeAttribute("href");
+    }
+  });
+
+  return {
+    author: elem.getAttribute("author") || "[deleted]",
+    score: elem.hasAttribute("score") && !isNaN(score) ? score : null,
+    html: body?.innerHTML.trim() ?? "",
+    replies: [],
+  };
+}
+
+/**
+ * Extracts the first top-level comments of a Reddit post page, in the
+ * order Reddit shows them, with their first direct replies.
+ *
+ * @param root - Parsed HTML of the post page
+ * @param limit - Maximum number of top-level comments
+ * @returns Comments, empty when the page has none
+ */
+export function extractTopComments(
+  root: HTMLElement,
+  limit: number,
+): Comment[] {
+  if (limit <= 0) return [];
+
+  return root
+    .querySelectorAll("shreddit-comment[depth='0']")
+    .slice(0, limit)
+    .map((elem) => {
+      const comment = toComment(elem);
+      comment.replies = elem
+        .querySelectorAll("shreddit-comment[depth='1']")
+        .slice(0, MAX_REPLIES)
+        .map(toComment);
+      return comment;
+    });
+}
+
+/**
+ * Renders comments as HTML, to be appended to the item description.
+ *
+ * @param comments - Comments returned by {@link extractTopComments}
+ * @returns HTML snippet, empty string when there is no comment
+ */
+export function renderComments(comments: Comment[]): string {
+  if (comments.length === 0) return "";
+
+  const render = (comment: Comment): string => {
+    const score =
+      comment.score === null ? "score hidden" : `${comment.score} points`;
+    const replies = comment.replies.length
+      ? `<blockquote>${comment.replies.map(render).join("")}</blockquote>`
+      : "";
+    return `<div><p><b>${escapeHtml(comment.author)}</b> · ${score}</p>${comment.html}${replies}</div>`;
+  };
+
+  return `<hr><h4>Top comments</h4>${comments.map(render).join("<hr>")}`;
+}
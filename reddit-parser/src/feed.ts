@@ -0,0 +1,125 @@
+import RSS from "rss";
+import Parser from "rss-parser";
+import { renderComments } from "./comments";
+import {
+  FeedFilters,
+  matchesMedia,
+  matchesMetadata,
+  needsMetadata,
+} from "./filters";
+import { fetchWithBackoff, mapWithConcurrency, RateLimitedError } from "./http";
+import { fetchPostMetadata, PostMetadata } from "./listing";
+import {
+  MEDIA_RSS_NAMESPACE,
+  mediaContentElements,
+  renderMediaStrip,
+} from "./media";
+import { getPostDetails, PostDetails } from "./posts";
+
+/** Maximum number of post pages fetched in parallel. */
+const FETCH_CONCURRENCY = Number(process.env.FETCH_CONCURRENCY) || 4;
+
+/** Options of a generated feed, read from the request. */
+export type FeedOptions = {
+  filters: FeedFilters;
+  /** Number of top comments inlined under each item */
+  commentsLimit: number;
+};
+
+/**
+ * Builds the feed of a Reddit listing, with posts resolved into media.
+ *
+ * Algorithm:
+ * 1. Fetch the RSS listing, and the JSON one when filters need metadata
+ * 2. Drop posts failing the metadata filters
+ * 3. Resolve the remaining posts, FETCH_CONCURRENCY at a time
+ * 4. Drop posts failing the media filters, and render the others
+ *
+ * A post that can't be resolved is kept, linking to its Reddit page,
+ * unless Reddit throttles us: the feed would then lose the media of every
+ * post, so it fails instead and a stale copy is served.
+ *
+ * @param listingUrl - URL of the Reddit RSS listing
+ * @param options - Filters and rendering options
+ * @returns RSS XML string
+ * @throws RateLimitedError when Reddit throttles the listing or post requests
+ */
+export async function buildFeed(
+  listingUrl: string,
+  options: FeedOptions,
+): Promise<string> {
+  const { filters, commentsLimit } = options;
+
+  const fetchListing = async () => {
+    const res = await fetchWithBackoff(listingUrl);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch listing: HTTP ${res.status}`);
+    }
+    return new Parser().parseString(await res.text());
+  };
+
+  const [inFeed, posts] = await Promise.all([
+    fetchListing(),
+    needsMetadata(filters)
+      ? fetchPostMetadata(listingUrl)
+      : new Map<string, PostMetadata>(),
+  ]);
+
+  const outFeed = new RSS({
+    title: inFeed.title!,
+    description: inFeed.description,
+    feed_url: inFeed.feedUrl!,
+    site_url: inFeed.feedUrl!,
+    language: "en",
+    custom_namespaces: { media: MEDIA_RSS_NAMESPACE },
+  });
+
+  const items = inFeed.items.filter((item) =>
+    matchesMetadata(filters, posts.get(item.id)),
+  );
+
+  const rendered = await mapWithConcurrency(
+    items,
+    FETCH_CONCURRENCY,
+    async (item): Promise<RSS.ItemOptions | null> => {
+      let details: PostDetails;
+      try {
+        details = await getPostDetails(item.id, item.link!, item.content);
+      } catch (e) {
+        if (e instanceof RateLimitedError) throw e;
+        console.error(`Failed to resolve ${item.link}:`, e);
+        details = { media: [], comments: [] };
+      }
+
+      const { media } = details;
+      const comments = renderComments(details.comments.slice(0, commentsLimit));
+
+      if (!matchesMedia(filters, media)) {
+        return null;
+      }
+      if (media.length > 0) {
+        return {
+          title: item.title!,
+          description:
+            renderMediaStrip(media) + (item.description ?? "") + comments,
+          url: media[0].url,
+          date: item.pubDate!,
+          enclosure: { url: media[0].url, type: media[0].mimeType },
+          custom_elements: mediaContentElements(media),
+        };
+      }
+      return {
+        title: item.title!,
+        description: (item.description ?? "") + comments,
+        url: item.link!,
+        date: item.pubDate!,
+      };
+    },
+  );
+
+  for (const item of rendered) {
+    if (item) outFeed.item(item);
+  }
+
+  return outFeed.xml();
+}
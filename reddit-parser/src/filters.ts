@@ -0,0 +1,145 @@
+import { InvalidQueryError, PostMetadata } from "./listing";
+import { Media } from "./media";
+
+/** Per-item filters applied to the generated feed. */
+export type FeedFilters = {
+  /** Minimum score a post must have */
+  minScore: number | null;
+  /** Lowercased flairs a post must have one of (empty = any) */
+  flairs: string[];
+  /** Lowercased flairs a post must not have */
+  excludedFlairs: string[];
+  /** Whether NSFW posts are dropped, or the only ones kept */
+  nsfw: "exclude" | "only" | null;
+  /** Lowercased domains the media must be hosted on (empty = any) */
+  domains: string[];
+  /** Drop posts for which no direct media was found */
+  imagesOnly: boolean;
+};
+
+/**
+ * Splits a comma separated parameter into lowercased, trimmed values.
+ */
+function parseList(value: string | null): string[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Reads the filter parameters of a request.
+ *
+ * Supported parameters:
+ * - `min_score`: minimum post score
+ * - `flair`, `exclude_flair`: comma separated flairs (case-insensitive)
+ * - `nsfw`: `exclude` or `only`
+ * - `domains`: comma separated media domains, subdomains included
+ * - `images_only`: `1` to drop posts without direct media
+ *
+ * @param params - Query parameters of the incoming request
+ * @returns Parsed filters
+ * @throws InvalidQueryError when a parameter has an invalid value
+ */
+export function parseFilters(params: URLSearchParams): FeedFilters {
+  const minScoreParam = params.get("min_score");
+  let minScore: number | null = null;
+  if (minScoreParam !== null) {
+    minScore = Number(minScoreParam);
+    if (!Number.isInteger(minScore)) {
+      throw new InvalidQueryError("Invalid min_score, expected an integer");
+    }
+  }
+
+  const nsfw = params.get("nsfw");
+  if (nsfw !== null && nsfw !== "exclude" && nsfw !== "only") {
+    throw new InvalidQueryError("Invalid nsfw, expected exclude/only");
+  }
+
+  return {
+    minScore,
+    flairs: parseList(params.get("flair")),
+    excludedFlairs: parseList(params.get("exclude_flair")),
+    nsfw,
+    domains: parseList(params.get("domains")),
+    imagesOnly: params.get("images_only") === "1",
+  };
+}
+
+/**
+ * Whether the filters need post metadata from the JSON listing.
+ */
+export function needsMetadata(filters: FeedFilters): boolean {
+  return (
+    filters.minScore !== null ||
+    filters.flairs.length > 0 ||
+    filters.excludedFlairs.length > 0 ||
+    filters.nsfw !== null
+  );
+}
+
+/**
+ * Checks a post against the metadata-based filters (score, flair, NSFW).
+ * Posts without metadata fail as soon as one of these filters is set.
+ *
+ * @param filters - Filters of the request
+ * @param post - Metadata of the post, if the JSON listing had it
+ * @returns true if the post should be kept
+ */
+export function matchesMetadata(
+  filters: FeedFilters,
+  post: PostMetadata | undefined,
+): boolean {
+  if (!needsMetadata(filters)) return true;
+  if (!post) return false;
+
+  if (filters.minScore !== null && post.score < filters.minScore) {
+    return false;
+  }
+
+  const flair = post.flair?.toLowerCase() ?? null;
+  if (
+    filters.flairs.length > 0 &&
+    (!flair || !filters.flairs.includes(flair))
+  ) {
+    return false;
+  }
+  if (flair && filters.excludedFlairs.includes(flair)) {
+    return false;
+  }
+
+  if (filters.nsfw === "exclude" && post.nsfw) return false;
+  if (filters.nsfw === "only" && !post.nsfw) return false;
+
+  return true;
+}
+
+/**
+ * Checks the media resolved for a post against the media-based filters
+ * (images only, allowed domains).
+ *
+ * @param filters - Filters of the request
+ * @param media - Direct media found for the post
+ * @returns true if the post should be kept
+ */
+export function matchesMedia(filters: FeedFilters, media: Media[]): boolean {
+  if (filters.imagesOnly && media.length === 0) return false;
+
+  if (filters.domains.length > 0) {
+    if (media.length === 0) return false;
+    return media.every((m) => {
+      let host: string;
+      try {
+        host = new URL(m.url).hostname.toLowerCase();
+      } catch {
+        return false;
+      }
+      return filters.domains.some(
+        (domain) => host === domain || host.endsWith(`.${domain}`),
+      );
+    });
+  }
+
+  return true;
+}
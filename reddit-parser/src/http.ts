@@ -0,0 +1,147 @@
+/** Maximum number of retries of a throttled request. */
+const MAX_RETRIES = Number(process.env.FETCH_MAX_RETRIES) || 3;
+
+/** Delay before the first retry, doubled on each following one. */
+const BASE_BACKOFF_MS = 1000;
+
+/** Longest delay honored, so a request never hangs for minutes. */
+const MAX_BACKOFF_MS = 30_000;
+
+/**
+ * Time an attempt has to complete, body included, so a hung connection
+ * doesn't hold a fetch slot forever.
+ */
+const ATTEMPT_TIMEOUT_MS =
+  (Number(process.env.FETCH_TIMEOUT_SECONDS) || 15) * 1000;
+
+/** Time a request has to succeed, retries and backoff delays included. */
+const DEADLINE_MS = (Number(process.env.FETCH_DEADLINE_SECONDS) || 60) * 1000;
+
+/** Error thrown when upstream doesn't answer in time. */
+export class FetchTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`No response within ${timeoutMs}ms while fetching ${url}`);
+    this.name = "FetchTimeoutError";
+  }
+}
+
+/** Error thrown when upstream is still throttling us after every retry. */
+export class RateLimitedError extends Error {
+  /** Delay (ms) upstream asked us to wait, if it said so */
+  retryAfterMs: number | null;
+  constructor(url: string, retryAfterMs: number | null) {
+    super(`Rate limited by upstream while fetching ${url}`);
+    this.name = "RateLimitedError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ *
+ * @returns Delay in ms, or null when the header is absent or invalid
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now: number = Date.now(),
+): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * `fetch` honoring upstream throttling.
+ *
+ * Algorithm:
+ * 1. Send the request, aborted after ATTEMPT_TIMEOUT_MS
+ * 2. On 429 (or 503 with `Retry-After`), wait `Retry-After` when given,
+ *    an exponential backoff otherwise, then try again
+ * 3. After MAX_RETRIES retries, or when the next attempt would start past
+ *    DEADLINE_MS, throw RateLimitedError
+ *
+ * The timeout keeps running while the body is read.
+ *
+ * @param url - URL to fetch
+ * @param init - Options passed to fetch
+ * @returns The first non-throttled response
+ * @throws RateLimitedError when every attempt was throttled
+ * @throws FetchTimeoutError when an attempt timed out
+ */
+export async function fetchWithBackoff(
+  url: string,
+  init?: RequestInit,
+): Promise<Response> {
+  const deadline = Date.now() + DEADLINE_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    const timeoutMs = Math.min(ATTEMPT_TIMEOUT_MS, deadline - Date.now());
+    const timeout = AbortSignal.timeout(timeoutMs);
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        ...init,
+        signal: init?.signal
+          ? AbortSignal.any([init.signal, timeout])
+          : timeout,
+      });
+    } catch (e) {
+      if (timeout.aborted) throw new FetchTimeoutError(url, timeoutMs);
+      throw e;
+    }
+
+    const retryAfter = parseRetryAfter(res.headers.get("retry-after"));
+    const throttled =
+      res.status === 429 || (res.status === 503 && retryAfter !== null);
+    if (!throttled) return res;
+
+    const delay = Math.min(
+      retryAfter ?? BASE_BACKOFF_MS * 2 ** attempt,
+      MAX_BACKOFF_MS,
+    );
+    if (attempt >= MAX_RETRIES || Date.now() + delay >= deadline) {
+      throw new RateLimitedError(url, retryAfter);
+    }
+
+    console.warn(`Throttled on ${url}, retrying in ${delay}ms`);
+    await Bun.sleep(delay);
+  }
+}
+
+/**
+ * Maps items through an async function with at most `concurrency` calls
+ * running at once. Results keep the order of the items.
+ * Once a call fails, no new call is started, since the results are lost.
+ *
+ * @param items - Items to process
+ * @param concurrency - Maximum number of parallel calls
+ * @param fn - Async function applied to each item
+ * @returns Results, in item order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const idx = next++;
+      try {
+        results[idx] = await fn(items[idx]);
+      } catch (e) {
+        next = items.length;
+        throw e;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  );
+  return results;
+}
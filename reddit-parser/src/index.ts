@@ -1,76 +1,84 @@
-import Parser from "rss-parser";
-import { parse } from "node-html-parser";
-import RSS from "rss";
 import { serve } from "bun";
+import { TtlCache } from "./cache";
+import { parseCommentsLimit } from "./comments";
+import { buildFeed, FeedOptions } from "./feed";
+import { parseFilters } from "./filters";
+import { RateLimitedError } from "./http";
+import { buildListingUrl, InvalidQueryError } from "./listing";
+
+/** How long an assembled feed is served without rebuilding it. */
+const FEED_CACHE_TTL_MS =
+  (Number(process.env.FEED_CACHE_TTL_MINUTES) || 5) * 60 * 1000;
+
+/** How long an expired feed is kept to be served while Reddit throttles us. */
+const FEED_CACHE_STALE_MS = 24 * 60 * 60 * 1000;
+
+/** Assembled feeds, keyed by normalized query string. */
+const feedCache = new TtlCache<string>(FEED_CACHE_TTL_MS, FEED_CACHE_STALE_MS);
+
+/** Builds an RSS response, flagging whether it came from the cache. */
+function rssResponse(xml: string, cache: "HIT" | "MISS" | "STALE"): Response {
+  return new Response(xml, {
+    headers: {
+      "Content-Type": "application/rss+xml; charset=utf-8",
+      "X-Cache": cache,
+    },
+  });
+}
 
 serve({
   port: process.env.PORT || 3000,
   routes: {
     "/": async (req) => {
       const url = new URL(req.url);
-      const sub = url.searchParams.get("sub");
 
-      if (!sub) {
-        return new Response("No sub specified", { status: 400 });
+      let listingUrl: string;
+      let options: FeedOptions;
+      try {
+        listingUrl = buildListingUrl(url.searchParams);
+        options = {
+          filters: parseFilters(url.searchParams),
+          commentsLimit: parseCommentsLimit(url.searchParams),
+        };
+      } catch (e) {
+        if (e instanceof InvalidQueryError) {
+          return new Response(e.message, { status: 400 });
+        }
+        throw e;
       }
 
-      const parser: Parser = new Parser();
-      const inFeed = await parser.parseURL(
-        `https://www.reddit.com/r/${sub}.rss`,
-      );
+      url.searchParams.sort();
+      const cacheKey = url.searchParams.toString();
 
-      const outFeed = new RSS({
-        title: inFeed.title!,
-        description: inFeed.description,
-        feed_url: inFeed.feedUrl!,
-        site_url: inFeed.feedUrl!,
-        language: "en",
-      });
-
-      const proms = [] as Promise<void>[];
-
-      for (const item of inFeed.items) {
-        const p = new Promise<{
-          title: string;
-          description: string;
-          url: string;
-          date: string;
-        }>(async (resolve, reject) => {
-          // Following the link
-          const res = await fetch(item.link!).then((res) => res.text());
-
-          // Parse the HTML
-          const root = parse(res);
+      const cached = feedCache.get(cacheKey);
+      if (cached) {
+        return rssResponse(cached, "HIT");
+      }
 
-          const elem = root.querySelector(
-            "faceplate-tracker[source=post_lightbox] a",
-          );
-          if (elem) {
-            resolve({
-              title: item.title!,
-              description: item.description,
-              url: elem.getAttribute("href")!,
-              date: item.pubDate!,
-            });
-          } else {
-            resolve({
-              title: item.title!,
-              description: item.description,
-              url: item.link!,
-              date: item.pubDate!,
-            });
+      let xml: string;
+      try {
+        xml = await buildFeed(listingUrl, options);
+      } catch (e) {
+        const stale = feedCache.getStale(cacheKey);
+        if (stale) {
+          console.warn(`Serving stale feed for ${cacheKey}:`, e);
+          return rssResponse(stale, "STALE");
+        }
+        if (e instanceof RateLimitedError) {
+          const headers = new Headers();
+          if (e.retryAfterMs !== null) {
+            headers.set(
+              "Retry-After",
+              String(Math.ceil(e.retryAfterMs / 1000)),
+            );
           }
-        });
-
-        proms.push(
-          p.then((res) => {
-            outFeed.item(res);
-          }),
-        );
+          return new Response(e.message, { status: 503, headers });
+        }
+        throw e;
       }
 
-      await Promise.all(proms);
-      return new Response(outFeed.xml());
+      feedCache.set(cacheKey, xml);
+      return rssResponse(xml, "MISS");
     },
   },
 });
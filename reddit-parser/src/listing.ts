@@ -0,0 +1,169 @@
+import { fetchWithBackoff } from "./http";
+
+/**
+ * Base URL of Reddit, overridable through `REDDIT_BASE_URL` to point the
+ * service at a local mock.
+ */
+export const REDDIT_BASE_URL =
+  process.env.REDDIT_BASE_URL || "https://www.reddit.com";
+
+/** Listing orders understood by Reddit. */
+export const SORTS = ["hot", "new", "top", "rising"] as const;
+export type Sort = (typeof SORTS)[number];
+
+/** Time windows applying to the `top` order (and to searches). */
+export const TIME_WINDOWS = ["day", "week", "month", "year", "all"] as const;
+export type TimeWindow = (typeof TIME_WINDOWS)[number];
+
+/** Error thrown when the query parameters don't describe a valid listing. */
+export class InvalidQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidQueryError";
+  }
+}
+
+const NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Builds the upstream Reddit RSS URL described by the query parameters.
+ *
+ * Supported parameters:
+ * - `sub`: subreddit, or multireddit as `a+b+c`
+ * - `user`: posts submitted by a user
+ * - `q`: search query, restricted to `sub` when both are given
+ * - `sort`: one of {@link SORTS} (defaults to Reddit's own order)
+ * - `t`: one of {@link TIME_WINDOWS}, for `top` listings and searches
+ *
+ * @param params - Query parameters of the incoming request
+ * @returns Absolute URL of the Reddit RSS listing
+ * @throws InvalidQueryError when parameters are missing or invalid
+ */
+export function buildListingUrl(params: URLSearchParams): string {
+  const sub = params.get("sub");
+  const user = params.get("user");
+  const query = params.get("q");
+  const sort = params.get("sort");
+  const time = params.get("t");
+
+  if (!sub && !user && !query) {
+    throw new InvalidQueryError("No sub, user or q specified");
+  }
+  if (user && (sub || query)) {
+    throw new InvalidQueryError("user can't be combined with sub or q");
+  }
+  if (sort && !SORTS.includes(sort as Sort)) {
+    throw new InvalidQueryError(`Invalid sort, expected ${SORTS.join("/")}`);
+  }
+  if (time && !TIME_WINDOWS.includes(time as TimeWindow)) {
+    throw new InvalidQueryError(
+      `Invalid t, expected ${TIME_WINDOWS.join("/")}`,
+    );
+  }
+
+  const upstream = new URL(REDDIT_BASE_URL);
+
+  if (user) {
+    if (!NAME_PATTERN.test(user)) {
+      throw new InvalidQueryError("Invalid user name");
+    }
+    if (sort === "rising") {
+      throw new InvalidQueryError("rising is not available for user feeds");
+    }
+    upstream.pathname = `/user/${user}/submitted.rss`;
+    if (sort) upstream.searchParams.set("sort", sort);
+  } else {
+    // `+` is decoded as a space in query strings, so accept both separators
+    const subs = sub ? sub.split(/[+\s]+/).filter(Boolean) : [];
+    if (subs.some((s) => !NAME_PATTERN.test(s))) {
+      throw new InvalidQueryError("Invalid sub name");
+    }
+    const prefix = subs.length > 0 ? `/r/${subs.join("+")}` : "";
+
+    if (query) {
+      if (sort === "rising") {
+        throw new InvalidQueryError("rising is not available for searches");
+      }
+      upstream.pathname = `${prefix}/search.rss`;
+      upstream.searchParams.set("q", query);
+      if (subs.length > 0) upstream.searchParams.set("restrict_sr", "1");
+      if (sort) upstream.searchParams.set("sort", sort);
+    } else {
+      upstream.pathname = sort ? `${prefix}/${sort}.rss` : `${prefix}.rss`;
+    }
+  }
+
+  if (time) upstream.searchParams.set("t", time);
+
+  return upstream.toString();
+}
+
+/**
+ * Post metadata that Reddit's RSS doesn't carry, taken from the JSON
+ * version of the same listing.
+ */
+export type PostMetadata = {
+  /** Fullname of the post, e.g. `t3_abc123`, matching the RSS entry id */
+  id: string;
+  score: number;
+  flair: string | null;
+  nsfw: boolean;
+  /** Domain the post links to, e.g. `i.redd.it` or `self.pics` */
+  domain: string;
+};
+
+/**
+ * Converts an RSS listing URL into its JSON counterpart, which Reddit
+ * serves on the same path with a `.json` extension.
+ *
+ * @param listingUrl - URL returned by {@link buildListingUrl}
+ * @returns URL of the JSON listing
+ */
+export function toJsonListingUrl(listingUrl: string): string {
+  const url = new URL(listingUrl);
+  url.pathname = url.pathname.replace(/\.rss$/, ".json");
+  url.searchParams.set("raw_json", "1");
+  return url.toString();
+}
+
+/**
+ * Fetches the JSON listing and indexes its posts by fullname.
+ *
+ * @param listingUrl - URL returned by {@link buildListingUrl}
+ * @returns Metadata of every post of the listing, keyed by id
+ */
+export async function fetchPostMetadata(
+  listingUrl: string,
+): Promise<Map<string, PostMetadata>> {
+  const res = await fetchWithBackoff(toJsonListingUrl(listingUrl));
+  if (!res.ok) {
+    throw new Error(`Failed to fetch JSON listing: HTTP ${res.status}`);
+  }
+
+  const listing = (await res.json()) as {
+    data?: {
+      children?: {
+        data: {
+          name: string;
+          score: number;
+          link_flair_text: string | null;
+          over_18: boolean;
+          domain: string;
+        };
+      }[];
+    };
+  };
+
+  const posts = new Map<string, PostMetadata>();
+  for (const child of listing.data?.children ?? []) {
+    const post = child.data;
+    posts.set(post.name, {
+      id: post.name,
+      score: post.score,
+      flair: post.link_flair_text || null,
+      nsfw: post.over_18,
+      domain: post.domain,
+    });
+  }
+  return posts;
+}
@@ -0,0 +1,113 @@
+/** XML namespace of the Media RSS extension, used for `media:content`. */
+export const MEDIA_RSS_NAMESPACE = "http://search.yahoo.com/mrss/";
+
+/**
+ * Kind of a resolved media.
+ * - `image`: still image
+ * - `video`: video with controls
+ * - `animated`: short looping video standing in for a GIF (e.g. `.gifv`)
+ */
+export type MediaKind = "image" | "video" | "animated";
+
+/** A direct media file found for a post. */
+export type Media = {
+  /** Direct URL to the file */
+  url: string;
+  kind: MediaKind;
+  /** MIME type, e.g. `image/jpeg`, when known */
+  mimeType?: string;
+  /** Width in pixels, when known */
+  width?: number;
+  /** Height in pixels, when known */
+  height?: number;
+  /** Still image to show before a video plays, when known */
+  poster?: string;
+};
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+  avif: "image/avif",
+  mp4: "video/mp4",
+  webm: "video/webm",
+};
+
+/**
+ * Guesses the MIME type of a media URL from its file extension.
+ *
+ * @param url - Media URL, query string allowed
+ * @returns MIME type, or undefined for unknown extensions
+ */
+export function guessMimeType(url: string): string | undefined {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return undefined;
+  }
+  const ext = pathname.split(".").pop()?.toLowerCase() ?? "";
+  return MIME_TYPES[ext];
+}
+
+/**
+ * Renders media as a horizontal strip, to be put above the original item
+ * description. Images are linked thumbnails, videos are embedded players.
+ *
+ * @param media - Media to render
+ * @returns HTML snippet, empty string when there is no media
+ */
+export function renderMediaStrip(media: Media[]): string {
+  if (media.length === 0) return "";
+
+  const elems = media
+    .map((m) => {
+      const src = escapeHtml(m.url);
+      const style = `style="max-height: 300px; margin-right: 4px;"`;
+      const poster = m.poster ? ` poster="${escapeHtml(m.poster)}"` : "";
+      const type = m.mimeType ? ` type="${m.mimeType}"` : "";
+
+      switch (m.kind) {
+        case "video":
+          return `<video controls preload="metadata"${poster} ${style}><source src="${src}"${type}></video>`;
+        case "animated":
+          return `<video autoplay loop muted playsinline${poster} ${style}><source src="${src}"${type}></video>`;
+        default:
+          return `<a href="${src}"><img src="${src}" ${style}></a>`;
+      }
+    })
+    .join("");
+
+  return `<div style="display: flex; overflow-x: auto;">${elems}</div>`;
+}
+
+/**
+ * Builds one `media:content` element per media, to be used as the
+ * `custom_elements` of an RSS item.
+ *
+ * @param media - Media to declare
+ * @returns node-xml elements for the rss package
+ */
+export function mediaContentElements(media: Media[]): object[] {
+  return media.map((m) => {
+    const attrs: Record<string, string | number> = {
+      url: m.url,
+      medium: m.kind === "image" ? "image" : "video",
+    };
+    if (m.mimeType) attrs.type = m.mimeType;
+    if (m.width) attrs.width = m.width;
+    if (m.height) attrs.height = m.height;
+    return { "media:content": { _attr: attrs } };
+  });
+}
+
+/** Escapes a string to be safely put inside HTML text or attributes. */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,69 @@
+import { parse } from "node-html-parser";
+import { TtlCache } from "./cache";
+import { Comment, extractTopComments, MAX_COMMENTS } from "./comments";
+import { fetchWithBackoff } from "./http";
+import { Media } from "./media";
+import { findTargetUrl, resolveMedia } from "./resolvers";
+
+/** How long resolved posts are reused without fetching them again. */
+const POST_CACHE_TTL_MS =
+  (Number(process.env.POST_CACHE_TTL_MINUTES) || 6 * 60) * 60 * 1000;
+
+/** How long expired posts are kept to be served while Reddit throttles us. */
+const POST_CACHE_STALE_MS = 24 * 60 * 60 * 1000;
+
+/** Everything the feed needs from a post page. */
+export type PostDetails = {
+  media: Media[];
+  /** Top comments, up to MAX_COMMENTS whatever the request asks for */
+  comments: Comment[];
+};
+
+const postCache = new TtlCache<PostDetails>(
+  POST_CACHE_TTL_MS,
+  POST_CACHE_STALE_MS,
+);
+
+/**
+ * Fetches a post page and resolves its media and top comments.
+ * Results are cached by post id, and an expired entry is served when the
+ * page can't be fetched.
+ *
+ * @param postId - Fullname of the post, e.g. `t3_abc123`
+ * @param permalink - URL of the post page
+ * @param content - HTML content of the RSS entry
+ * @returns Media and comments of the post
+ */
+export async function getPostDetails(
+  postId: string,
+  permalink: string,
+  content: string | undefined,
+): Promise<PostDetails> {
+  const cached = postCache.get(postId);
+  if (cached) return cached;
+
+  try {
+    const res = await fetchWithBackoff(permalink);
+    if (!res.ok) {
+      throw new Error(`Failed to fetch ${permalink}: HTTP ${res.status}`);
+    }
+    const root = parse(await res.text());
+
+    const target = findTargetUrl(root, content, permalink);
+    const details: PostDetails = {
+      media: await resolveMedia([target, permalink], {
+        postPage: root,
+        fetch: fetchWithBackoff,
+      }),
+      // Comments come from the same page, no extra request needed
+      comments: extractTopComments(root, MAX_COMMENTS),
+    };
+
+    postCache.set(postId, details);
+    return details;
+  } catch (e) {
+    const stale = postCache.getStale(postId);
+    if (stale) return stale;
+    throw e;
+  }
+}
@@ -0,0 +1,25 @@
+import { guessMimeType } from "../media";
+import { MediaResolver } from "./types";
+
+/**
+ * Handles URLs already pointing to a media file (`i.redd.it/x.jpg`,
+ * `example.com/clip.mp4`, ...), recognized by their extension.
+ */
+export const directResolver: MediaResolver = {
+  name: "direct",
+
+  canResolve(url) {
+    return guessMimeType(url.toString()) !== undefined;
+  },
+
+  async resolve(url) {
+    const mimeType = guessMimeType(url.toString())!;
+    return [
+      {
+        url: url.toString(),
+        kind: mimeType.startsWith("video/") ? "video" : "image",
+        mimeType,
+      },
+    ];
+  },
+};
@@ -0,0 +1,19 @@
+import { MediaResolver } from "./types";
+
+/**
+ * Handles `.gifv` links (mostly imgur), which are HTML wrappers around an
+ * MP4 file living at the same path.
+ */
+export const gifvResolver: MediaResolver = {
+  name: "gifv",
+
+  canResolve(url) {
+    return url.pathname.toLowerCase().endsWith(".gifv");
+  },
+
+  async resolve(url) {
+    const mp4 = new URL(url);
+    mp4.pathname = mp4.pathname.replace(/\.gifv$/i, ".mp4");
+    return [{ url: mp4.toString(), kind: "animated", mimeType: "video/mp4" }];
+  },
+};
@@ -0,0 +1,12 @@
+/**
+ * Checks whether a URL is on a domain or one of its subdomains, so
+ * `old.reddit.com` is on `reddit.com` but `notreddit.com` is not.
+ *
+ * @param url - The URL to check
+ * @param domain - Domain without leading dot, e.g. `reddit.com`
+ * @returns Whether the URL's host is the domain or a subdomain of it
+ */
+export function isOnDomain(url: URL, domain: string): boolean {
+  const host = url.hostname.toLowerCase();
+  return host === domain || host.endsWith("." + domain);
+}
@@ -0,0 +1,78 @@
+import { parse } from "node-html-parser";
+import { Media } from "../media";
+import { readOpenGraph } from "./opengraph";
+import { MediaResolver } from "./types";
+
+/**
+ * Client id of an imgur application, needed to list every image of an
+ * album through imgur's API. Without it, albums resolve to their cover.
+ */
+const IMGUR_CLIENT_ID = process.env.IMGUR_CLIENT_ID;
+
+/** Image of an album, as returned by imgur's API. */
+type ImgurImage = {
+  link: string;
+  type: string;
+  width: number;
+  height: number;
+  animated: boolean;
+  mp4?: string;
+};
+
+/**
+ * Converts an image of imgur's API into media, preferring the MP4 version
+ * of animated images.
+ */
+export function imgurImageToMedia(image: ImgurImage): Media {
+  if (image.animated && image.mp4) {
+    return {
+      url: image.mp4,
+      kind: "animated",
+      mimeType: "video/mp4",
+      width: image.width,
+      height: image.height,
+    };
+  }
+  return {
+    url: image.link,
+    kind: "image",
+    mimeType: image.type,
+    width: image.width,
+    height: image.height,
+  };
+}
+
+/**
+ * Handles imgur pages: albums (`/a/<id>`, `/gallery/<id>`) and single image
+ * pages (`imgur.com/<id>`). Direct `i.imgur.com` files are left to the
+ * direct and gifv resolvers.
+ */
+export const imgurResolver: MediaResolver = {
+  name: "imgur",
+
+  canResolve(url) {
+    const host = url.hostname.toLowerCase();
+    return (
+      host === "imgur.com" || host === "www.imgur.com" || host === "m.imgur.com"
+    );
+  },
+
+  async resolve(url, ctx) {
+    const album = url.pathname.match(/^\/(?:a|gallery)\/(?:[^/]*-)?(\w+)\/?$/);
+
+    if (album && IMGUR_CLIENT_ID) {
+      const res = await ctx.fetch(
+        `https://api.imgur.com/3/album/${album[1]}/images`,
+        { headers: { Authorization: `Client-ID ${IMGUR_CLIENT_ID}` } },
+      );
+      if (res.ok) {
+        const body = (await res.json()) as { data: ImgurImage[] };
+        return body.data.map(imgurImageToMedia);
+      }
+    }
+
+    const res = await ctx.fetch(url.toString());
+    if (!res.ok) return [];
+    return readOpenGraph(parse(await res.text()), url);
+  },
+};
@@ -0,0 +1,95 @@
+import { HTMLElement, parse } from "node-html-parser";
+import { Media } from "../media";
+import { directResolver } from "./direct";
+import { gifvResolver } from "./gifv";
+import { imgurResolver } from "./imgur";
+import { openGraphResolver } from "./opengraph";
+import { redditPostResolver } from "./reddit";
+import { MediaResolver, ResolverContext } from "./types";
+import { vredditResolver } from "./vreddit";
+
+export type { MediaResolver, ResolverContext } from "./types";
+
+/**
+ * Registered resolvers, in the order they are tried.
+ * Specific hosts come first, the generic OpenGraph scrape last.
+ */
+export const RESOLVERS: MediaResolver[] = [
+  gifvResolver,
+  vredditResolver,
+  imgurResolver,
+  directResolver,
+  redditPostResolver,
+  openGraphResolver,
+];
+
+/**
+ * Finds the URL a Reddit post points to.
+ *
+ * Algorithm:
+ * 1. `content-href` of the `<shreddit-post>` element of the post page
+ * 2. `[link]` anchor of the RSS entry content
+ * 3. The post permalink itself (self posts)
+ *
+ * @param postPage - Parsed HTML of the post page
+ * @param content - HTML content of the RSS entry
+ * @param permalink - URL of the post page
+ * @returns Absolute URL the post links to
+ */
+export function findTargetUrl(
+  postPage: HTMLElement,
+  content: string | undefined,
+  permalink: string,
+): string {
+  const href = postPage
+    .querySelector("shreddit-post")
+    ?.getAttribute("content-href");
+  if (href) return new URL(href, permalink).toString();
+
+  if (content) {
+    const link = parse(content)
+      .querySelectorAll("a[href]")
+      .find((a) => a.text.trim() === "[link]");
+    const linkHref = link?.getAttribute("href");
+    if (linkHref) return new URL(linkHref, permalink).toString();
+  }
+
+  return permalink;
+}
+
+/**
+ * Resolves URLs into media with the first resolver able to find some.
+ * Each URL is tried in turn, which lets callers fall back from the post
+ * target to the post permalink. A failing resolver is logged and skipped.
+ *
+ * @param urls - Candidate URLs, most specific first
+ * @param ctx - Context handed to the resolvers
+ * @param resolvers - Resolvers to try, defaults to {@link RESOLVERS}
+ * @returns Media found, empty if no resolver found any
+ */
+export async function resolveMedia(
+  urls: string[],
+  ctx: ResolverContext,
+  resolvers: MediaResolver[] = RESOLVERS,
+): Promise<Media[]> {
+  for (const raw of new Set(urls)) {
+    let url: URL;
+    try {
+      url = new URL(raw);
+    } catch {
+      continue;
+    }
+
+    for (const resolver of resolvers) {
+      if (!resolver.canResolve(url)) continue;
+      try {
+        const media = await resolver.resolve(url, ctx);
+        if (media.length > 0) return media;
+      } catch (e) {
+        console.error(`Resolver ${resolver.name} failed for ${raw}:`, e);
+      }
+    }
+  }
+
+  return [];
+}
@@ -0,0 +1,96 @@
+import { HTMLElement, parse } from "node-html-parser";
+import { guessMimeType, Media } from "../media";
+import { isOnDomain } from "./hosts";
+import { MediaResolver } from "./types";
+
+/**
+ * Reads the media a page declares through OpenGraph / Twitter card meta
+ * tags. A playable `og:video` is preferred over `og:image`, which is then
+ * used as its poster.
+ *
+ * @param page - Parsed HTML of the page
+ * @param pageUrl - URL of the page, to resolve relative URLs
+ * @returns At most one media, empty if the page declares none
+ */
+export function readOpenGraph(page: HTMLElement, pageUrl: URL): Media[] {
+  const meta = (names: string[]): string | undefined => {
+    for (const name of names) {
+      const elem = page.querySelector(
+        `meta[property="${name}"], meta[name="${name}"]`,
+      );
+      const content = elem?.getAttribute("content");
+      if (content) return content;
+    }
+    return undefined;
+  };
+  const absolute = (url: string | undefined): string | undefined => {
+    if (!url) return undefined;
+    try {
+      return new URL(url, pageUrl).toString();
+    } catch {
+      return undefined;
+    }
+  };
+  const dimension = (value: string | undefined): number | undefined => {
+    const n = Number(value);
+    return Number.isInteger(n) && n > 0 ? n : undefined;
+  };
+
+  const image = absolute(
+    meta(["og:image:secure_url", "og:image", "twitter:image"]),
+  );
+
+  const video = absolute(meta(["og:video:secure_url", "og:video"]));
+  const videoType = meta(["og:video:type"]) ?? (video && guessMimeType(video));
+  // Embedded players (YouTube & co.) are HTML pages, not playable files
+  if (video && videoType?.startsWith("video/")) {
+    return [
+      {
+        url: video,
+        kind: "video",
+        mimeType: videoType,
+        width: dimension(meta(["og:video:width"])),
+        height: dimension(meta(["og:video:height"])),
+        poster: image,
+      },
+    ];
+  }
+
+  if (image) {
+    return [
+      {
+        url: image,
+        kind: "image",
+        mimeType: meta(["og:image:type"]) ?? guessMimeType(image),
+        width: dimension(meta(["og:image:width"])),
+        height: dimension(meta(["og:image:height"])),
+      },
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Fallback for external hosts: fetches the linked page and reads the media
+ * it declares in its meta tags.
+ */
+export const openGraphResolver: MediaResolver = {
+  name: "opengraph",
+
+  canResolve(url) {
+    return (
+      (url.protocol === "http:" || url.protocol === "https:") &&
+      !isOnDomain(url, "reddit.com") &&
+      !isOnDomain(url, "redd.it")
+    );
+  },
+
+  async resolve(url, ctx) {
+    const res = await ctx.fetch(url.toString());
+    if (!res.ok) return [];
+    const contentType = res.headers.get("content-type") ?? "";
+    if (!contentType.includes("html")) return [];
+    return readOpenGraph(parse(await res.text()), url);
+  },
+};
@@ -0,0 +1,60 @@
+import { HTMLElement } from "node-html-parser";
+import { REDDIT_BASE_URL } from "../listing";
+import { guessMimeType, Media } from "../media";
+import { isOnDomain } from "./hosts";
+import { MediaResolver } from "./types";
+
+/**
+ * Finds every image of a Reddit post page, in display order.
+ *
+ * Gallery posts render one `<img>` per slide inside `<gallery-carousel>`,
+ * with all but the first slide lazy-loaded through `data-lazy-src`.
+ * Single-image posts expose the full-size image through the lightbox link.
+ *
+ * @param root - Parsed HTML of the post page
+ * @returns Image URLs without duplicates, empty if the post has no image
+ */
+export function findPostImages(root: HTMLElement): string[] {
+  const urls: string[] = [];
+
+  for (const img of root.querySelectorAll("gallery-carousel img")) {
+    const src = img.getAttribute("src") || img.getAttribute("data-lazy-src");
+    // The carousel also renders blurred backgrounds sharing the slide's URL
+    if (src && !urls.includes(src)) {
+      urls.push(src);
+    }
+  }
+
+  if (urls.length > 0) {
+    return urls;
+  }
+
+  const lightbox = root.querySelector(
+    "faceplate-tracker[source=post_lightbox] a",
+  );
+  const href = lightbox?.getAttribute("href");
+  return href ? [href] : [];
+}
+
+/**
+ * Handles Reddit pages (galleries, image posts) by scraping the images the
+ * post page displays.
+ */
+export const redditPostResolver: MediaResolver = {
+  name: "reddit",
+
+  canResolve(url) {
+    return (
+      isOnDomain(url, "reddit.com") ||
+      url.hostname.toLowerCase() === new URL(REDDIT_BASE_URL).hostname
+    );
+  },
+
+  async resolve(_url, ctx) {
+    return findPostImages(ctx.postPage).map((url): Media => ({
+      url,
+      kind: "image",
+      mimeType: guessMimeType(url),
+    }));
+  },
+};
@@ -0,0 +1,27 @@
+import { HTMLElement } from "node-html-parser";
+import { Media } from "../media";
+
+/** Everything a resolver may need besides the URL it resolves. */
+export type ResolverContext = {
+  /** Parsed HTML of the Reddit post page */
+  postPage: HTMLElement;
+  /** Used for any extra request, so tests can answer with saved fixtures */
+  fetch: (url: string, init?: RequestInit) => Promise<Response>;
+};
+
+/**
+ * Strategy turning the URL a post points to into direct media.
+ * Resolvers are tried in registry order, the first one returning media wins.
+ */
+export type MediaResolver = {
+  /** Short name, used in logs */
+  name: string;
+  /** Whether this resolver knows how to handle the URL */
+  canResolve(url: URL): boolean;
+  /**
+   * Resolves the URL into media.
+   * Returns an empty array when nothing was found, so the next resolver
+   * can try.
+   */
+  resolve(url: URL, ctx: ResolverContext): Promise<Media[]>;
+};
@@ -0,0 +1,91 @@
+import { Media } from "../media";
+import { MediaResolver } from "./types";
+
+/**
+ * Picks the best video stream of a v.redd.it DASH manifest.
+ *
+ * Reddit hosts each resolution as a plain MP4 file next to the manifest
+ * (`DASH_720.mp4`, ...), so the highest bandwidth video representation can
+ * be linked directly. Audio lives in a separate stream and is not included.
+ *
+ * @param manifest - Content of `DASHPlaylist.mpd`
+ * @param videoUrl - Base URL of the video, e.g. `https://v.redd.it/<id>`
+ * @returns The video media, or null if the manifest lists no video stream
+ */
+export function parseDashManifest(
+  manifest: string,
+  videoUrl: string,
+): Media | null {
+  const attr = (tag: string, name: string) =>
+    tag.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+
+  let best: (Media & { bandwidth: number }) | null = null;
+
+  const adaptationSets = manifest.match(
+    /<AdaptationSet[\s\S]*?<\/AdaptationSet>/g,
+  );
+  for (const set of adaptationSets ?? []) {
+    const setTag = set.match(/<AdaptationSet[^>]*>/)![0];
+
+    for (const rep of set.match(/<Representation[\s\S]*?<\/Representation>/g) ??
+      []) {
+      const repTag = rep.match(/<Representation[^>]*>/)![0];
+      const mimeType = attr(repTag, "mimeType") ?? attr(setTag, "mimeType");
+      const width = Number(attr(repTag, "width"));
+      const height = Number(attr(repTag, "height"));
+      const baseUrl = rep.match(/<BaseURL>([^<]+)<\/BaseURL>/)?.[1];
+      if (!mimeType?.startsWith("video/") || !width || !height || !baseUrl) {
+        continue;
+      }
+
+      const bandwidth = Number(attr(repTag, "bandwidth")) || width * height;
+      if (!best || bandwidth > best.bandwidth) {
+        best = {
+          url: new URL(baseUrl.trim(), `${videoUrl}/`).toString(),
+          kind: "video",
+          mimeType,
+          width,
+          height,
+          bandwidth,
+        };
+      }
+    }
+  }
+
+  if (!best) return null;
+  const { bandwidth: _, ...media } = best;
+  return media;
+}
+
+/**
+ * Handles Reddit-hosted videos (`v.redd.it/<id>`) by reading their DASH
+ * manifest. The post page's player preview, when present, is used as poster.
+ */
+export const vredditResolver: MediaResolver = {
+  name: "v.redd.it",
+
+  canResolve(url) {
+    return url.hostname.toLowerCase() === "v.redd.it";
+  },
+
+  async resolve(url, ctx) {
+    const id = url.pathname.split("/").filter(Boolean)[0];
+    if (!id) return [];
+
+    const videoUrl = `https://v.redd.it/${id}`;
+    const res = await ctx.fetch(`${videoUrl}/DASHPlaylist.mpd`);
+    if (!res.ok) return [];
+
+    const media = parseDashManifest(await res.text(), videoUrl);
+    if (!media) return [];
+
+    const player = ctx.postPage.querySelector(
+      "shreddit-player-2, shreddit-player",
+    );
+    const poster =
+      player?.getAttribute("poster") || player?.getAttribute("preview");
+    if (poster) media.poster = poster;
+
+    return [media];
+  },
+};
@@ -0,0 +1,290 @@
+import { describe, expect, test } from "bun:test";
+import { parse } from "node-html-parser";
+import path from "path";
+import type { ResolverContext } from "../src/resolvers";
+
+// Read when the imgur resolver is loaded, to test albums through the API,
+// so the resolvers are imported once it is set
+process.env.IMGUR_CLIENT_ID = "test-client-id";
+const { resolveMedia } = await import("../src/resolvers");
+const { imgurResolver } = await import("../src/resolvers/imgur");
+const { openGraphResolver } = await import("../src/resolvers/opengraph");
+const { redditPostResolver } = await import("../src/resolvers/reddit");
+const { vredditResolver } = await import("../src/resolvers/vreddit");
+
+const FIXTURES = path.join(import.meta.dir, "fixtures");
+
+/** A saved response, served instead of the real URL. */
+type Fixture = { file: string; contentType: string };
+
+/**
+ * Builds a resolver context answering requests with saved fixtures, and
+ * 404 for any other URL.
+ *
+ * @param postPage - Fixture of the Reddit post page
+ * @param responses - Fixture served for each URL
+ * @returns The context, and the requests it received
+ */
+async function fixtureContext(
+  postPage: string,
+  responses: Record<string, Fixture> = {},
+): Promise<{ ctx: ResolverContext; requests: [string, RequestInit?][] }> {
+  const requests: [string, RequestInit?][] = [];
+  const ctx: ResolverContext = {
+    postPage: parse(await Bun.file(path.join(FIXTURES, postPage)).text()),
+    fetch: async (url, init) => {
+      requests.push([url, init]);
+      const fixture = responses[url];
+      if (!fixture) return new Response("Not Found", { status: 404 });
+      return new Response(Bun.file(path.join(FIXTURES, fixture.file)), {
+        headers: { "Content-Type": fixture.contentType },
+      });
+    },
+  };
+  return { ctx, requests };
+}
+
+describe("reddit resolver", () => {
+  test("handles Reddit hosts only", () => {
+    const canResolve = (url: string) =>
+      redditPostResolver.canResolve(new URL(url));
+    expect(canResolve("https://www.reddit.com/gallery/1abcde")).toBe(true);
+    expect(canResolve("https://old.reddit.com/r/pics/comments/1abcde")).toBe(
+      true,
+    );
+    expect(canResolve("https://reddit.com/gallery/1abcde")).toBe(true);
+    expect(canResolve("https://notreddit.com/gallery/1abcde")).toBe(false);
+  });
+
+  test("lists every slide of a gallery, without duplicates", async () => {
+    const { ctx, requests } = await fixtureContext("reddit-gallery-post.html");
+    const media = await redditPostResolver.resolve(
+      new URL("https://www.reddit.com/gallery/1abcde"),
+      ctx,
+    );
+    expect(media).toEqual([
+      {
+        url: "https://preview.redd.it/slide1.jpg?width=640&format=pjpg",
+        kind: "image",
+        mimeType: "image/jpeg",
+      },
+      {
+        url: "https://preview.redd.it/slide2.png?width=640&format=png",
+        kind: "image",
+        mimeType: "image/png",
+      },
+      {
+        url: "https://preview.redd.it/slide3.jpg?width=640&format=pjpg",
+        kind: "image",
+        mimeType: "image/jpeg",
+      },
+    ]);
+    expect(requests).toEqual([]);
+  });
+
+  test("uses the lightbox image of single-image posts", async () => {
+    const { ctx } = await fixtureContext("reddit-image-post.html");
+    const media = await redditPostResolver.resolve(
+      new URL("https://www.reddit.com/r/pics/comments/2fghij"),
+      ctx,
+    );
+    expect(media).toEqual([
+      {
+        url: "https://i.redd.it/sunset.jpg",
+        kind: "image",
+        mimeType: "image/jpeg",
+      },
+    ]);
+  });
+});
+
+describe("v.redd.it resolver", () => {
+  test("links the best video stream of the DASH manifest", async () => {
+    const { ctx, requests } = await fixtureContext("vreddit-post.html", {
+      "https://v.redd.it/x1y2z3/DASHPlaylist.mpd": {
+        file: "vreddit-DASHPlaylist.mpd",
+        contentType: "application/dash+xml",
+      },
+    });
+    const url = new URL("https://v.redd.it/x1y2z3");
+    expect(vredditResolver.canResolve(url)).toBe(true);
+
+    const media = await vredditResolver.resolve(url, ctx);
+    expect(requests.map(([url]) => url)).toEqual([
+      "https://v.redd.it/x1y2z3/DASHPlaylist.mpd",
+    ]);
+    expect(media).toEqual([
+      {
+        url: "https://v.redd.it/x1y2z3/DASH_720.mp4",
+        kind: "video",
+        mimeType: "video/mp4",
+        width: 1280,
+        height: 720,
+        poster: "https://external-preview.redd.it/x1y2z3-poster.jpg",
+      },
+    ]);
+  });
+
+  test("finds nothing when the manifest is missing", async () => {
+    const { ctx } = await fixtureContext("vreddit-post.html");
+    const media = await vredditResolver.resolve(
+      new URL("https://v.redd.it/x1y2z3"),
+      ctx,
+    );
+    expect(media).toEqual([]);
+  });
+});
+
+describe("imgur resolver", () => {
+  test("lists the images of an album through the API", async () => {
+    const { ctx, requests } = await fixtureContext("reddit-image-post.html", {
+      "https://api.imgur.com/3/album/Alb42/images": {
+        file: "imgur-album-images.json",
+        contentType: "application/json",
+      },
+    });
+    const media = await imgurResolver.resolve(
+      new URL("https://imgur.com/a/Alb42"),
+      ctx,
+    );
+    expect(requests).toEqual([
+      [
+        "https://api.imgur.com/3/album/Alb42/images",
+        { headers: { Authorization: "Client-ID test-client-id" } },
+      ],
+    ]);
+    expect(media).toEqual([
+      {
+        url: "https://i.imgur.com/Img0001.jpg",
+        kind: "image",
+        mimeType: "image/jpeg",
+        width: 1600,
+        height: 1200,
+      },
+      {
+        url: "https://i.imgur.com/Img0002.mp4",
+        kind: "animated",
+        mimeType: "video/mp4",
+        width: 480,
+        height: 270,
+      },
+    ]);
+  });
+
+  test("reads the OpenGraph image of single image pages", async () => {
+    const { ctx } = await fixtureContext("reddit-image-post.html", {
+      "https://imgur.com/AbC123x": {
+        file: "imgur-image-page.html",
+        contentType: "text/html; charset=utf-8",
+      },
+    });
+    const url = new URL("https://imgur.com/AbC123x");
+    expect(imgurResolver.canResolve(url)).toBe(true);
+    expect(imgurResolver.canResolve(new URL("https://i.imgur.com/x.jpg"))).toBe(
+      false,
+    );
+
+    const media = await imgurResolver.resolve(url, ctx);
+    expect(media).toEqual([
+      {
+        url: "https://i.imgur.com/AbC123x.jpeg?fb",
+        kind: "image",
+        mimeType: "image/jpeg",
+        width: 1200,
+        height: 900,
+      },
+    ]);
+  });
+});
+
+describe("opengraph resolver", () => {
+  test("skips Reddit hosts, not lookalike domains", () => {
+    const canResolve = (url: string) =>
+      openGraphResolver.canResolve(new URL(url));
+    expect(canResolve("https://www.reddit.com/r/pics")).toBe(false);
+    expect(canResolve("https://v.redd.it/x1y2z3")).toBe(false);
+    expect(canResolve("https://notreddit.com/story")).toBe(true);
+    expect(canResolve("https://shredd.it/story")).toBe(true);
+    expect(canResolve("ftp://example.com/file")).toBe(false);
+  });
+
+  test("prefers a playable video, with the image as poster", async () => {
+    const { ctx } = await fixtureContext("reddit-image-post.html", {
+      "https://news.example.com/launch": {
+        file: "opengraph-video-page.html",
+        contentType: "text/html",
+      },
+    });
+    const media = await openGraphResolver.resolve(
+      new URL("https://news.example.com/launch"),
+      ctx,
+    );
+    expect(media).toEqual([
+      {
+        url: "https://cdn.example.com/videos/launch.mp4",
+        kind: "video",
+        mimeType: "video/mp4",
+        width: 1920,
+        height: 1080,
+        poster: "https://news.example.com/thumbnails/launch.jpg",
+      },
+    ]);
+  });
+
+  test("falls back to the image of embedded players", async () => {
+    const { ctx } = await fixtureContext("reddit-image-post.html", {
+      "https://videos.example.org/interview": {
+        file: "opengraph-embed-page.html",
+        contentType: "text/html",
+      },
+    });
+    const media = await openGraphResolver.resolve(
+      new URL("https://videos.example.org/interview"),
+      ctx,
+    );
+    expect(media).toEqual([
+      {
+        url: "https://videos.example.org/thumbs/interview.png",
+        kind: "image",
+        mimeType: "image/png",
+        width: 1280,
+        height: 720,
+      },
+    ]);
+  });
+
+  test("ignores responses that are not HTML", async () => {
+    const { ctx } = await fixtureContext("reddit-image-post.html", {
+      "https://example.com/data": {
+        file: "imgur-album-images.json",
+        contentType: "application/json",
+      },
+    });
+    const media = await openGraphResolver.resolve(
+      new URL("https://example.com/data"),
+      ctx,
+    );
+    expect(media).toEqual([]);
+  });
+});
+
+describe("resolveMedia", () => {
+  test("falls back to the next URL when a target has no media", async () => {
+    const { ctx, requests } = await fixtureContext("reddit-gallery-post.html");
+    const media = await resolveMedia(
+      [
+        "https://news.example.com/missing",
+        "https://www.reddit.com/gallery/1abcde",
+      ],
+      ctx,
+    );
+    expect(requests.map(([url]) => url)).toEqual([
+      "https://news.example.com/missing",
+    ]);
+    expect(media.map((m) => m.url)).toEqual([
+      "https://preview.redd.it/slide1.jpg?width=640&format=pjpg",
+      "https://preview.redd.it/slide2.png?width=640&format=png",
+      "https://preview.redd.it/slide3.jpg?width=640&format=pjpg",
+    ]);
+  });
+});